@@ -1,35 +1,81 @@
 
-import React, { useState, useEffect, useCallback, useRef, useTransition, useDeferredValue } from 'react';
-import type { TableRow } from './types';
+import React, { useState, useEffect, useCallback, useRef, useTransition, useDeferredValue, useMemo } from 'react';
+import type { TableRow, IdentityRule, PairDecision, EligibilityRules, CollegeMapping, ElectionResult, ColumnLayout, Corrections, UnionDefinition, MappingSuggestion, MappingProfile, ImportReport } from './types';
 import { FileUpload } from './components/FileUpload';
-import { DataTable } from './components/DataTable';
+import { DataTable, DataTableHandle } from './components/DataTable';
 import { Spinner } from './components/Spinner';
+import { ImportProgress } from './components/ImportProgress';
 import { DateModal } from './components/DateModal';
 import { DuplicatesModal } from './components/DuplicatesModal';
 import { Report } from './components/Report';
+import { ResultsView } from './components/ResultsView';
+import { CandidateListsModal } from './components/CandidateListsModal';
+import { CensusListModal } from './components/CensusListModal';
+import { BallotModal } from './components/BallotModal';
+import { HistoryModal } from './components/HistoryModal';
+import { SearchHelp } from './components/SearchHelp';
+import { ColumnMenu } from './components/ColumnMenu';
+import { UnionRegistryModal } from './components/UnionRegistryModal';
+import { MappingModal } from './components/MappingModal';
+import { SourcePickerModal } from './components/SourcePickerModal';
+import { TableLayoutModal } from './components/TableLayoutModal';
+import { CsvFormatModal } from './components/CsvFormatModal';
+import { ImportReportModal } from './components/ImportReportModal';
 import { SupermarketBackground } from './components/SupermarketBackground';
-import { parseFile } from './services/fileParser';
-import { saveState, loadState, AppState, clearState } from './services/db';
-import { SearchIcon, SettingsIcon, UsersIcon, ExportIcon, UploadIcon, ExcelIcon, CSVIcon, SimpleSpinnerIcon } from './components/Icon';
+import { ProjectPicker } from './components/ProjectPicker';
+import { ReplaceCensusModal } from './components/ReplaceCensusModal';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { mergeSources, sourceNeedsReview, ParsedSource } from './services/fileParser';
+import type { CsvFormat } from './services/csvFormat';
+import { parseFilesInBackground, reparseCsvInBackground, ParseProgress, ParseTask } from './services/backgroundParser';
+import { reconcileCensus, remapRowIndexLists, ReconciliationResult } from './services/censusReconciliation';
+import { getDataQualityIssues } from './services/idValidation';
+import { DEFAULT_IDENTITY_RULE, findDuplicateCandidates, findDuplicateRowIndexes, getCandidateLabel } from './services/candidateIdentity';
+import { DEFAULT_ELIGIBILITY_RULES, checkEligibility, evaluateEligibility } from './services/eligibility';
+import { computeWorkcenterSeats, computeWorkcenterStaff } from './services/seatCalculation';
+import { EMPTY_COLLEGE_MAPPING, getCollegeLabel } from './services/electoralColleges';
+import { getListUnits } from './services/electionResults';
+import { buildAllCandidateLists, getListPositions, groupRowsByUnit } from './services/candidateLists';
+import {
+    SearchableRow, SearchMarkContext, parseSearchQuery, searchUsesMarks, searchUsesDuplicates,
+    buildSearchableRows, matchesSearchQuery,
+} from './services/searchQuery';
+import { EMPTY_COLUMN_LAYOUT, sortTableRows } from './services/columnLayout';
+import { applyCorrections, setCorrection, removeCorrection, remapCorrections, countCorrections, buildCorrectionLog } from './services/corrections';
+import { DEFAULT_UNION_REGISTRY, remapUnion } from './services/unionRegistry';
+import { suggestColumnMappings, applyColumnMappings, mappingsChangeHeaders, findMatchingProfile, getProfileMappings } from './services/columnMapping';
+import { buildImportReport, reportHasFindings } from './services/importReport';
+import {
+    saveState, loadState, AppState, ProjectSummary, listProjects, createProject, renameProject,
+    duplicateProject, deleteProject, getActiveProjectId, setActiveProjectId,
+    AuditAction, addAuditEntry, getAuditUser, setAuditUser,
+    listMappingProfiles, saveMappingProfile, deleteMappingProfile,
+} from './services/db';
+import { SearchIcon, SettingsIcon, UsersIcon, ExportIcon, UploadIcon, ExcelIcon, CSVIcon, PDFIcon, SimpleSpinnerIcon, UndoIcon, RedoIcon, HistoryIcon } from './components/Icon';
 import * as XLSX from 'xlsx';
 import Papa from 'papaparse';
 
-type View = 'upload' | 'data' | 'report' | 'loading';
-
-/**
- * Normaliza un texto: lo convierte a minúsculas, le quita tildes y signos de puntuación.
- * Esto hace que las comparaciones de texto sean insensibles a mayúsculas, acentos y puntuación.
- * @param text El texto a normalizar.
- * @returns El texto normalizado.
- */
-const normalizeText = (text: string): string => {
-  if (!text) return '';
-  return text
-    .normalize("NFD") // Separa los caracteres base de los diacríticos (tildes)
-    .replace(/[\u0300-\u036f]/g, "") // Elimina los diacríticos
-    .toLowerCase() // Convierte a minúsculas
-    .replace(/[.,/#!$%^&*;:{}=\-_`~()]/g, ""); // Elimina puntuación común
-};
+type View = 'upload' | 'data' | 'report' | 'results' | 'loading';
+
+// How an imported file is used: as a new project or replacing the census of the active one
+type ImportMode = 'new' | 'replace';
+
+// A parsed file waiting for the user to confirm its column mapping
+type PendingImport = { mode: ImportMode; fileName: string; headers: string[]; data: TableRow[]; report: ImportReport; suggestions: MappingSuggestion[] };
+
+// Several sheets or files waiting for the user to choose which ones make up the census,
+// or to review how CSV files are read and where their header row and data end
+type PendingSources = { mode: ImportMode; fileName: string; sources: ParsedSource[] };
+
+// A single mark toggled in the table, kept so it can be undone and redone
+type MarkChange = { rowIndex: number; union: string; previous: boolean; next: boolean };
+
+const UNDO_LIMIT = 200;
+const ANONYMOUS_USER = 'Sin identificar';
+
+const DUPLICATE_EXPORT_HEADER = 'Duplicado';
+const COLLEGE_EXPORT_HEADER = 'Colegio electoral';
+const getListPositionHeader = (union: string) => `Orden ${union}`;
 
 
 const App: React.FC = () => {
@@ -39,20 +85,63 @@ const App: React.FC = () => {
     const [fileName, setFileName] = useState<string>('');
     const [headers, setHeaders] = useState<string[]>([]);
     const [originalData, setOriginalData] = useState<{ row: TableRow, originalIndex: number }[]>([]);
-    const [searchableData, setSearchableData] = useState<{ searchableString: string, originalIndex: number }[]>([]);
+    const [searchableData, setSearchableData] = useState<SearchableRow[]>([]);
     const [filteredData, setFilteredData] = useState<{ row: TableRow, originalIndex: number }[]>([]);
     const [checkedState, setCheckedState] = useState<Record<number, Record<string, boolean>>>({});
-    const [allUnions, setAllUnions] = useState<string[]>(['CCOO', 'UGT', 'SB', 'SITCA', 'OTRO']);
+    const [unionRegistry, setUnionRegistry] = useState<UnionDefinition[]>(DEFAULT_UNION_REGISTRY);
+    const allUnions = useMemo(() => unionRegistry.map(union => union.acronym), [unionRegistry]);
     const [visibleUnions, setVisibleUnions] = useState<string[]>(['CCOO', 'UGT']);
     const [electionDates, setElectionDates] = useState({ submissionDate: '', votingDate: '' });
+    const [identityRule, setIdentityRule] = useState<IdentityRule>(DEFAULT_IDENTITY_RULE);
+    const [pairDecisions, setPairDecisions] = useState<Record<string, PairDecision>>({});
+    const [eligibilityRules, setEligibilityRules] = useState<EligibilityRules>(DEFAULT_ELIGIBILITY_RULES);
+    const [collegeMapping, setCollegeMapping] = useState<CollegeMapping>(EMPTY_COLLEGE_MAPPING);
+    const [columnLayout, setColumnLayout] = useState<ColumnLayout>(EMPTY_COLUMN_LAYOUT);
+    const [corrections, setCorrections] = useState<Corrections>({});
+    const [exportOriginalValues, setExportOriginalValues] = useState(false);
+    const [results, setResults] = useState<Record<string, ElectionResult>>({});
+    const [candidateOrder, setCandidateOrder] = useState<Record<string, number[]>>({});
+    const [substitutes, setSubstitutes] = useState<Record<string, number[]>>({});
+    const [undoStack, setUndoStack] = useState<MarkChange[]>([]);
+    const [redoStack, setRedoStack] = useState<MarkChange[]>([]);
+    const [auditUser, setAuditUserName] = useState('');
+    const checkedStateRef = useRef(checkedState);
     const [searchTerm, setSearchTerm] = useState('');
     const deferredSearchTerm = useDeferredValue(searchTerm);
     const [error, setError] = useState<string | null>(null);
     const searchInputRef = useRef<HTMLInputElement>(null);
+    const dataTableRef = useRef<DataTableHandle>(null);
+    const [jumpTarget, setJumpTarget] = useState<{ rowIndex: number; requestId: number } | null>(null);
+
+    // Project state
+    const [activeProject, setActiveProject] = useState<{ id: string; name: string } | null>(null);
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [newProjectName, setNewProjectName] = useState('');
+
+    // Column mapping state
+    const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+    const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+    const [pendingSources, setPendingSources] = useState<PendingSources | null>(null);
+    const [pendingLayout, setPendingLayout] = useState<PendingSources | null>(null);
+    const [pendingCsv, setPendingCsv] = useState<PendingSources | null>(null);
+    const [importReport, setImportReport] = useState<ImportReport | null>(null);
+    // File reading in progress in the background, so it can be followed and cancelled
+    const [parseTask, setParseTask] = useState<ParseTask | null>(null);
+    const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+    const pendingSampleRows = useMemo(() => pendingImport?.data.slice(0, 20) ?? [], [pendingImport]);
 
     // Modal states
     const [isDateModalOpen, setIsDateModalOpen] = useState(false);
     const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+    const [isListsModalOpen, setIsListsModalOpen] = useState(false);
+    const [isCensusListModalOpen, setIsCensusListModalOpen] = useState(false);
+    const [isBallotModalOpen, setIsBallotModalOpen] = useState(false);
+    const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+    const [isUnionRegistryModalOpen, setIsUnionRegistryModalOpen] = useState(false);
+    const [isImportReportModalOpen, setIsImportReportModalOpen] = useState(false);
+    const [reconciliationResult, setReconciliationResult] = useState<ReconciliationResult | null>(null);
+    const [droppedCorrections, setDroppedCorrections] = useState(0);
+    const replaceCensusInputRef = useRef<HTMLInputElement>(null);
     
     // Export dropdown state
     const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
@@ -62,28 +151,69 @@ const App: React.FC = () => {
     // Base64 encoded logo image from the last working version
     const dinosolLogoSrc = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAYAAACqaXHeAAAACXBIWXMAAAsTAAALEwEAmpwYAAAAAXNSR0IArs4c6QAAAARnQU1BAACxjwv8YQUAAARgSURBVHgB7ZxdctowEIb/c2d3sks3SS+dNE8Qe4LME2SOkDhB4gQZJzB7gswT5J/gnCC7BXeSS+eSXbZjp1y0gBCkge044gX8+DP8gQcQ8P1+gwRS5B8sQcSCHC+yJAXJ9/MkycuwLOu6rhRFEb2mG10mSRIsy3Ke5ylJEhiGQRzHYIzRNE2MMbquY4wZY4wxURQFmqaBMAwZY0QxRhimaU3TtDGGURQRx3GcPM/jOEbTNJIk4XmeqKoKx3GgqipUVSWGYSAMA5IkwTAMtG2bNE0xxlXVSJIEXTfx3E+SpFmWtW1bjuN4nqeqqjRNQ+I4GIbBNE3HcdI0Ddd14jgOx3GgqgqCIGRZlmEYxlhdk2VZNE3DMAySJEEQBCEIgiAIuq5ZlsUYYIyBaZqmaRDGIK7rhmEAEISI4zhpmobneZquSRRFURQURSEMY5qmSZKE4ziMMbquURRFUZTmecYYmqZBURSMMTzP0zSN4zhFUYRhGNquY4wRRZGIoghjDMMwmqbBMAyMMWiahmVZFEXRNE3GGGEYYIwxxv8LpmnGGGEY0jSNoijo+v9aVdXv53mepmmMMWEYkqSJruvYtm2aplEUhaIoeJ4nx3EUReG6rqIoNE3DMAzq+v9bVXXbtmmaxpIkjuOo6zpOkoRiGMYYPM/DMAxpmvR9n7Zt0zQNgiBSFIUxxtM0URTlui5FUbquURRFUZTmecYYmqZBURSMMTzP0zSN4zhFUYRhGNquY4wRRZGIoghjDMMwmqbBMAyMMWiahmVZFEXRNE3GGGEYYIwxxv8LpmnGGGEY0jSNoijo+v9aVdXv53mepmmMMWEYkqSJruvYtm2aplEUhaIoeJ4nx3EUReG6rqIoNE3DMAzq+v9bVXXbtmmaxpIkjuOo6zpOkoRiGMYYPM/DMAxpmvR9n7Zt0zQNgiBSFIUxxtM0URTlui5FUbquURRFUZTmecYYmqZBURSMMTzP0zSN4zhFUYRhGNquY4wRRZGIoghjDMMwmqbBMAyMMWiahmVZFEXRNE3GGGEYYIwxxv8LpmnGGGEY0jSNoijo+v9aVdXv53mepmmMMWEYkqSJruvYtm2aplEUhaIoeJ4nx3EUReG6rqIoNE3DMAzq+v9bVXXbtmmaxpIkjuOo6zpOkoRiGMYYPM/DMAxpmvR9n7Zt0zQNgiBSFIUxxtM0URTlui5FUbquURRFUZTmecYYmqZBURSMMTzP0zSN4zhFUYRhGNquY4wRRZGIoghjDMMwmqbBMAyMMWiahmVZFEXRNE3GGGEYYIwxxv8LpmnGGGEY0jSNoijo+v9aVdXv53mepmmMMWEYkqSJruvYtm2aplEUhaIoeJ4nx3EUReG6l+3/82l7/f8+M2a7/gH6f9++F3P15AAAAABJRU5ErkJggg==";
 
+    // Copies a saved project state into the component state
+    const applyState = useCallback((savedState: AppState) => {
+        setHeaders(savedState.headers || []);
+        const dataWithIndices = (savedState.data || []).map((row, index) => ({ row, originalIndex: index }));
+        setOriginalData(dataWithIndices);
+        setFilteredData(dataWithIndices);
+        setCheckedState(savedState.checkedState || {});
+        setPairDecisions(savedState.pairDecisions || {});
+        setResults(savedState.results || {});
+        setCandidateOrder(savedState.candidateOrder || {});
+        setSubstitutes(savedState.substitutes || {});
+        setElectionDates(savedState.settings?.dates || { submissionDate: '', votingDate: '' });
+        setVisibleUnions(savedState.settings?.unions || ['CCOO', 'UGT']);
+        setUnionRegistry(savedState.settings?.unionRegistry || DEFAULT_UNION_REGISTRY);
+        setIdentityRule(savedState.settings?.identity || DEFAULT_IDENTITY_RULE);
+        setEligibilityRules(savedState.settings?.eligibility || DEFAULT_ELIGIBILITY_RULES);
+        setCollegeMapping(savedState.settings?.colleges || EMPTY_COLLEGE_MAPPING);
+        setColumnLayout(savedState.settings?.columns || EMPTY_COLUMN_LAYOUT);
+        setCorrections(savedState.corrections || {});
+        setImportReport(savedState.importReport || null);
+        setFileName(savedState.fileName || '');
+        setUndoStack([]);
+        setRedoStack([]);
+    }, []);
+
+    const refreshProjects = useCallback(() => {
+        listProjects().then(setProjects).catch(() => setProjects([]));
+    }, []);
+
     // Load initial state from DB
     useEffect(() => {
-        loadState().then(savedState => {
-            if (savedState) {
-                setHeaders(savedState.headers || []);
-                const dataWithIndices = (savedState.data || []).map((row, index) => ({ row, originalIndex: index }));
-                setOriginalData(dataWithIndices);
-                setFilteredData(dataWithIndices);
-                setCheckedState(savedState.checkedState || {});
-                setElectionDates(savedState.settings?.dates || { submissionDate: '', votingDate: '' });
-                setVisibleUnions(savedState.settings?.unions || ['CCOO', 'UGT']);
-                setFileName(savedState.fileName || '');
-                setView('data');
-            } else {
+        getActiveProjectId()
+            .then(projectId => projectId ? loadState(projectId) : null)
+            .then(project => {
+                if (project) {
+                    setActiveProject({ id: project.id, name: project.name });
+                    applyState(project.state);
+                    setView('data');
+                } else {
+                    refreshProjects();
+                    setView('upload');
+                }
+            }).catch(() => {
+                setError('No se pudo cargar el estado guardado. Por favor, carga un archivo nuevo.');
                 setView('upload');
-            }
-        }).catch(() => {
-            setError('No se pudo cargar el estado guardado. Por favor, carga un archivo nuevo.');
-            setView('upload');
-        });
+            });
+    }, [applyState, refreshProjects]);
+
+    // The audit user is remembered per browser, not per project
+    useEffect(() => {
+        getAuditUser().then(setAuditUserName);
+    }, []);
+
+    // Mapping profiles are shared by every project
+    useEffect(() => {
+        listMappingProfiles().then(setMappingProfiles);
     }, []);
 
+    // Keep the latest marks at hand so a toggle knows which value it replaces
+    useEffect(() => {
+        checkedStateRef.current = checkedState;
+    }, [checkedState]);
+
     // Effect for handling clicks outside the export menu
     useEffect(() => {
       const handleClickOutside = (event: MouseEvent) => {
@@ -97,86 +227,161 @@ const App: React.FC = () => {
       };
     }, []);
 
+    // Imported rows with the hand-made corrections on top; everything except saving works on these
+    const correctedData = useMemo(() => applyCorrections(originalData, corrections), [originalData, corrections]);
+    const correctionCount = useMemo(() => countCorrections(corrections), [corrections]);
+
     // Pre-process data for faster searching
     useEffect(() => {
-        const processed = originalData.map(({ row, originalIndex }) => ({
-            searchableString: normalizeText(Object.values(row).join(' ')),
-            originalIndex
-        }));
-        setSearchableData(processed);
-    }, [originalData]);
+        setSearchableData(buildSearchableRows(headers, correctedData));
+    }, [headers, correctedData]);
 
-    // Filter data based on search term (multi-filter) - OPTIMIZED
-    useEffect(() => {
-        const normalizedSearch = normalizeText(deferredSearchTerm);
-        const searchTerms = normalizedSearch.split(' ').filter(term => term.trim() !== '');
+    const searchQuery = useMemo(() => parseSearchQuery(deferredSearchTerm, headers), [deferredSearchTerm, headers]);
+
+    // Marks are only needed (and the filter only re-run on every mark) when the query filters by them
+    const searchMarks = useMemo<SearchMarkContext | null>(() => {
+        if (!searchUsesMarks(searchQuery)) return null;
+        return {
+            checkedState,
+            duplicateRows: searchUsesDuplicates(searchQuery)
+                ? findDuplicateRowIndexes(correctedData.map(d => d.row), checkedState, allUnions, identityRule, headers, pairDecisions)
+                : new Set<number>(),
+        };
+    }, [searchQuery, checkedState, correctedData, allUnions, identityRule, headers, pairDecisions]);
 
-        if (searchTerms.length === 0) {
-            setFilteredData(originalData);
+    // Filter data based on the structured search query - OPTIMIZED
+    useEffect(() => {
+        if (searchQuery.length === 0) {
+            setFilteredData(correctedData);
             return;
         }
 
         // Fast filtering using pre-processed searchable strings
         const filteredIndexes = new Set(
             searchableData
-                .filter(({ searchableString }) => searchTerms.every(term => searchableString.includes(term)))
+                .filter(item => matchesSearchQuery(searchQuery, item, searchMarks))
                 .map(item => item.originalIndex)
         );
 
-        const filtered = originalData.filter(({ originalIndex }) => filteredIndexes.has(originalIndex));
+        const filtered = correctedData.filter(({ originalIndex }) => filteredIndexes.has(originalIndex));
         
         setFilteredData(filtered);
-    }, [deferredSearchTerm, originalData, searchableData]);
+    }, [searchQuery, searchMarks, correctedData, searchableData]);
+
+    // Rows in the order shown in the table; only sorting by a union re-sorts on every mark
+    const sortMarks = columnLayout.sort?.byUnion ? checkedState : null;
+    const displayedData = useMemo(
+        () => sortTableRows(filteredData, columnLayout.sort, sortMarks ?? {}),
+        [filteredData, columnLayout.sort, sortMarks]
+    );
     
+    // Validate DNI/NIE identifiers of the loaded census
+    const idIssues = useMemo(() => {
+        const issues = getDataQualityIssues(headers, correctedData.map(d => d.row));
+        return { list: issues, byRow: new Map(issues.map(issue => [issue.rowIndex, issue])) };
+    }, [headers, correctedData]);
+
+    // Candidates marked for more than one union of the registry, shown in the report and the duplicates modal.
+    // The search filter and the export flag duplicates over the same unions, so all of them agree.
+    const duplicatesReport = useMemo(
+        () => view === 'report' || isDuplicatesModalOpen
+            ? findDuplicateCandidates(correctedData.map(d => d.row), checkedState, allUnions, identityRule, headers, idIssues.byRow, pairDecisions)
+            : null,
+        [view, isDuplicatesModalOpen, correctedData, checkedState, allUnions, identityRule, headers, idIssues, pairDecisions]
+    );
+
+    // Check age and seniority requirements at the voting date. Dates are only parsed when the census or
+    // the rules change; a new mark just picks the candidate or elector result of each row
+    const eligibilityEvaluation = useMemo(
+        () => evaluateEligibility(headers, correctedData.map(d => d.row), electionDates.votingDate, eligibilityRules),
+        [headers, correctedData, electionDates.votingDate, eligibilityRules]
+    );
+    const eligibilityIssues = useMemo(
+        () => checkEligibility(eligibilityEvaluation, checkedState),
+        [eligibilityEvaluation, checkedState]
+    );
+
+    // Seats to elect in each workcenter, with the candidates marked per union (split by electoral college).
+    // Staff and seats only change with the census; a new mark just recounts the marked rows
+    const workcenterStaff = useMemo(
+        () => computeWorkcenterStaff(headers, correctedData.map(d => d.row), collegeMapping),
+        [headers, correctedData, collegeMapping]
+    );
+    const workcenterSeats = useMemo(
+        () => computeWorkcenterSeats(workcenterStaff, checkedState, allUnions),
+        [workcenterStaff, checkedState, allUnions]
+    );
+
+    // Ordered candidate lists of every union in every workcenter (and college)
+    const listUnits = useMemo(() => getListUnits(workcenterSeats), [workcenterSeats]);
+    // Rows are grouped by unit once per census, so a new mark only rescans each unit's rows
+    const rowsByUnit = useMemo(
+        () => groupRowsByUnit(headers, correctedData.map(d => d.row), collegeMapping),
+        [headers, correctedData, collegeMapping]
+    );
+    const candidateLists = useMemo(
+        () => buildAllCandidateLists(rowsByUnit, checkedState, allUnions, listUnits, candidateOrder, substitutes),
+        [rowsByUnit, checkedState, allUnions, listUnits, candidateOrder, substitutes]
+    );
+
     // Save state whenever critical data changes
     const saveDataToDB = useCallback(() => {
-        if (headers.length > 0 && originalData.length > 0) {
+        if (activeProject && headers.length > 0 && originalData.length > 0) {
             const stateToSave: AppState = {
                 headers,
                 data: originalData.map(d => d.row),
                 checkedState,
+                pairDecisions,
+                results,
+                candidateOrder,
+                substitutes,
+                corrections,
+                importReport: importReport ?? undefined,
                 settings: {
                     dates: electionDates,
                     unions: visibleUnions,
+                    unionRegistry,
+                    identity: identityRule,
+                    eligibility: eligibilityRules,
+                    colleges: collegeMapping,
+                    columns: columnLayout,
                 },
                 fileName,
             };
-            saveState(stateToSave);
+            saveState(activeProject.id, stateToSave);
         }
-    }, [headers, originalData, checkedState, electionDates, visibleUnions, fileName]);
+    }, [activeProject, headers, originalData, checkedState, pairDecisions, results, candidateOrder, substitutes, corrections, importReport, electionDates, visibleUnions, unionRegistry, identityRule, eligibilityRules, collegeMapping, columnLayout, fileName]);
 
     useEffect(() => {
         const timeoutId = setTimeout(() => {
              saveDataToDB();
         }, 500); // Debounce saving
         return () => clearTimeout(timeoutId);
-    }, [checkedState, electionDates, visibleUnions, saveDataToDB]);
+    }, [checkedState, pairDecisions, results, candidateOrder, substitutes, corrections, importReport, electionDates, visibleUnions, unionRegistry, identityRule, eligibilityRules, collegeMapping, columnLayout, saveDataToDB]);
 
     // Handlers
-    const handleFileSelect = async (file: File) => {
+    const createProjectFromCensus = async (fileName: string, parsedHeaders: string[], parsedData: TableRow[], report: ImportReport) => {
         setView('loading');
         setError(null);
         try {
-            await clearState(); // Clear old data before processing new file
-            const { headers: parsedHeaders, data: parsedData } = await parseFile(file);
-
-            setHeaders(parsedHeaders);
-            const dataWithIndices = parsedData.map((row, index) => ({ row, originalIndex: index }));
-            setOriginalData(dataWithIndices);
-            setFilteredData(dataWithIndices);
-            setCheckedState({});
-            setFileName(file.name);
-            
-            // Save initial state of new file
+            // Every imported census becomes a new project, so other workcenters are never overwritten
             const initialState: AppState = {
                 headers: parsedHeaders,
                 data: parsedData,
                 checkedState: {},
-                settings: { dates: electionDates, unions: visibleUnions },
-                fileName: file.name
+                settings: { dates: { submissionDate: '', votingDate: '' }, unions: ['CCOO', 'UGT'] },
+                importReport: report,
+                fileName
             };
-            await saveState(initialState);
+            const project = await createProject(newProjectName || fileName.replace(/\.[^.]+$/, ''), initialState);
+            await setActiveProjectId(project.id);
+
+            setActiveProject({ id: project.id, name: project.name });
+            applyState(initialState);
+            setNewProjectName('');
             setView('data');
+            // Rows that were left out or changed are shown straight away so nothing is lost silently
+            setIsImportReportModalOpen(reportHasFindings(report));
             
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
@@ -185,7 +390,220 @@ const App: React.FC = () => {
         }
     };
     
-    const handleCheckboxChange = useCallback((rowIndex: number, union: string, isChecked: boolean) => {
+    // Loads a corrected census into the current project, carrying each person's marks over
+    const replaceCensus = (fileName: string, parsedHeaders: string[], parsedData: TableRow[], report: ImportReport) => {
+        setError(null);
+        try {
+            if (parsedData.length === 0) {
+                throw new Error('El nuevo archivo no contiene filas.');
+            }
+            const result = reconcileCensus(headers, correctedData.map(d => d.row), checkedState, parsedHeaders, parsedData);
+
+            setHeaders(parsedHeaders);
+            const dataWithIndices = parsedData.map((row, index) => ({ row, originalIndex: index }));
+            setOriginalData(dataWithIndices);
+            setFilteredData(dataWithIndices);
+            setCheckedState(result.checkedState);
+            // Ordered lists and substitutes follow each person to their row in the new census
+            setCandidateOrder(remapRowIndexLists(candidateOrder, result.newIndexByOld));
+            setSubstitutes(remapRowIndexLists(substitutes, result.newIndexByOld));
+            // Hand corrections move with their row; those of people no longer in the census are lost
+            const remappedCorrections = remapCorrections(corrections, result.newIndexByOld, parsedData);
+            setCorrections(remappedCorrections.corrections);
+            setDroppedCorrections(remappedCorrections.dropped);
+            setUndoStack([]);
+            setRedoStack([]);
+            setFileName(fileName);
+            setImportReport(report);
+            setSearchTerm('');
+            setReconciliationResult(result);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+            setError(errorMessage);
+        } finally {
+            setView('data');
+        }
+    };
+
+    const completeImport = (mode: ImportMode, fileName: string, parsedHeaders: string[], parsedData: TableRow[], report: ImportReport) =>
+        mode === 'new'
+            ? createProjectFromCensus(fileName, parsedHeaders, parsedData, report)
+            : replaceCensus(fileName, parsedHeaders, parsedData, report);
+
+    // Maps the columns of the census: a saved profile for the same headers is applied straight away,
+    // otherwise the heuristic suggestions are shown for confirmation when they rename anything
+    const mapAndImport = async (mode: ImportMode, fileName: string, parsedHeaders: string[], parsedData: TableRow[], report: ImportReport) => {
+        const profile = findMatchingProfile(mappingProfiles, parsedHeaders);
+        if (profile) {
+            const mapped = applyColumnMappings(parsedHeaders, parsedData, getProfileMappings(profile, parsedHeaders));
+            await completeImport(mode, fileName, mapped.headers, mapped.data, report);
+            return;
+        }
+
+        const suggestions = suggestColumnMappings(parsedHeaders, parsedData);
+        if (!mappingsChangeHeaders(suggestions)) {
+            await completeImport(mode, fileName, parsedHeaders, parsedData, report);
+            return;
+        }
+        setPendingImport({ mode, fileName, headers: parsedHeaders, data: parsedData, report, suggestions });
+        setView(mode === 'new' ? 'upload' : 'data');
+    };
+
+    // Merges the sources into one census; whatever was skipped or converted on the way goes into the import report
+    const mergeAndImport = (mode: ImportMode, fileName: string, sources: ParsedSource[]) => {
+        const merged = mergeSources(sources);
+        const report = buildImportReport(fileName, merged.data.length, merged.warnings, merged.issues);
+        return mapAndImport(mode, fileName, merged.headers, merged.data, report);
+    };
+
+    // Sources with title blocks or footers are shown for review before being merged and mapped
+    const reviewAndImport = async (mode: ImportMode, fileName: string, sources: ParsedSource[]) => {
+        if (sources.some(sourceNeedsReview)) {
+            setPendingLayout({ mode, fileName, sources });
+            setView(mode === 'new' ? 'upload' : 'data');
+            return;
+        }
+        await mergeAndImport(mode, fileName, sources);
+    };
+
+    // Several sheets or files are offered in the picker to be merged into one census
+    const chooseSources = async (mode: ImportMode, fileName: string, sources: ParsedSource[]) => {
+        if (sources.length > 1) {
+            setPendingSources({ mode, fileName, sources });
+            setView(mode === 'new' ? 'upload' : 'data');
+            return;
+        }
+        await reviewAndImport(mode, fileName, sources);
+    };
+
+    // Shows the progress of a background read until it finishes; resolves with null if the user cancels it
+    const followParseTask = async (startTask: (onProgress: (progress: ParseProgress) => void) => ParseTask) => {
+        setView('loading');
+        setParseProgress(null);
+        const task = startTask(setParseProgress);
+        setParseTask(task);
+        try {
+            return await task.result;
+        } finally {
+            setParseTask(null);
+        }
+    };
+
+    // Parses every file in a worker; CSV files are previewed first so their encoding and separators can be corrected
+    const startImport = async (mode: ImportMode, files: File[]) => {
+        setError(null);
+        const idleView: View = mode === 'new' ? 'upload' : 'data';
+        try {
+            const sources = await followParseTask(onProgress => parseFilesInBackground(files, onProgress));
+            if (!sources) {
+                // Cancelled by the user
+                setView(idleView);
+                return;
+            }
+            const importName = files.map(file => file.name).join(', ');
+
+            if (sources.some(source => source.csv)) {
+                setPendingCsv({ mode, fileName: importName, sources });
+                setView(idleView);
+                return;
+            }
+            await chooseSources(mode, importName, sources);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+            setError(errorMessage);
+            setView(idleView);
+        }
+    };
+
+    const handleCancelImport = () => parseTask?.cancel();
+
+    const handleFilesSelect = (files: File[]) => startImport('new', files);
+
+    const handleReplaceCensus = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(e.target.files ?? []);
+        e.target.value = ''; // Allow selecting the same file again later
+        if (files.length === 0) return;
+        startImport('replace', files);
+    };
+
+    // CSV files whose format was changed are read again in the worker, as large ones take a while
+    const handleCsvConfirm = async (changedFormats: Record<number, CsvFormat>) => {
+        if (!pendingCsv) return;
+        const pending = pendingCsv;
+        const { mode, fileName: pendingFileName, sources } = pending;
+        setPendingCsv(null);
+        const changed = Object.keys(changedFormats).map(Number);
+        if (changed.length === 0) {
+            chooseSources(mode, pendingFileName, sources);
+            return;
+        }
+
+        const idleView: View = mode === 'new' ? 'upload' : 'data';
+        try {
+            const reparsed = await followParseTask(onProgress => reparseCsvInBackground(
+                changed.map(index => ({ fileName: sources[index].fileName, bytes: sources[index].csv!.bytes, format: changedFormats[index] })),
+                onProgress
+            ));
+            if (!reparsed) {
+                // Cancelled: back to the format preview with the files as they were read
+                setPendingCsv(pending);
+                setView(idleView);
+                return;
+            }
+            const updated = sources.map((source, index) => changed.includes(index) ? reparsed[changed.indexOf(index)] : source);
+            await chooseSources(mode, pendingFileName, updated);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+            setError(errorMessage);
+            setView(idleView);
+        }
+    };
+
+    const handleSourcesConfirm = (selected: ParsedSource[]) => {
+        if (!pendingSources) return;
+        const { mode, fileName: pendingFileName } = pendingSources;
+        setPendingSources(null);
+        reviewAndImport(mode, pendingFileName, selected);
+    };
+
+    const handleLayoutConfirm = (adjusted: ParsedSource[]) => {
+        if (!pendingLayout) return;
+        const { mode, fileName: pendingFileName } = pendingLayout;
+        setPendingLayout(null);
+        mergeAndImport(mode, pendingFileName, adjusted);
+    };
+
+    const handleMappingConfirm = async (mappings: MappingSuggestion[], profileName: string | null) => {
+        if (!pendingImport) return;
+        const { mode, fileName: pendingFileName, headers: parsedHeaders, data: parsedData, report } = pendingImport;
+        setPendingImport(null);
+        if (profileName) {
+            try {
+                const profile = await saveMappingProfile(profileName, parsedHeaders, mappings);
+                setMappingProfiles(prev => [...prev.filter(p => p.name !== profile.name), profile]);
+            } catch (err) {
+                // Losing the profile must not stop the import
+                console.error(err);
+            }
+        }
+        const mapped = applyColumnMappings(parsedHeaders, parsedData, mappings);
+        await completeImport(mode, pendingFileName, mapped.headers, mapped.data, report);
+    };
+
+    const handleMappingSkip = () => {
+        if (!pendingImport) return;
+        const { mode, fileName: pendingFileName, headers: parsedHeaders, data: parsedData, report } = pendingImport;
+        setPendingImport(null);
+        completeImport(mode, pendingFileName, parsedHeaders, parsedData, report);
+    };
+
+    const handleDeleteMappingProfile = (id: string) => {
+        deleteMappingProfile(id)
+            .then(() => setMappingProfiles(prev => prev.filter(p => p.id !== id)))
+            .catch(err => setError(err instanceof Error ? err.message : 'No se pudo borrar el perfil.'));
+    };
+
+    const applyMark = useCallback((rowIndex: number, union: string, isChecked: boolean) => {
         // By wrapping the slow state update in a transition, we tell React
         // that it's okay to delay this render to keep the UI responsive.
         startTransition(() => {
@@ -197,29 +615,216 @@ const App: React.FC = () => {
                 },
             }));
         });
-        
+    }, []);
+
+    // Writes the change to the persistent audit log; a failure never blocks the marking itself
+    const recordMarkChange = useCallback((change: MarkChange, action: AuditAction) => {
+        if (!activeProject) return;
+        const row = correctedData[change.rowIndex]?.row;
+        addAuditEntry({
+            projectId: activeProject.id,
+            timestamp: new Date().toISOString(),
+            user: auditUser || ANONYMOUS_USER,
+            rowIndex: change.rowIndex,
+            person: row ? getCandidateLabel(row) : `Fila ${change.rowIndex + 1}`,
+            union: change.union,
+            previousValue: change.previous,
+            newValue: change.next,
+            action,
+        }).catch(() => setError('No se pudo guardar el cambio en el historial.'));
+    }, [activeProject, correctedData, auditUser]);
+
+    // Marks without leaving the current row; the keyboard flow keeps marking until Enter is pressed
+    const handleMarkChange = useCallback((rowIndex: number, union: string, isChecked: boolean) => {
+        const change: MarkChange = {
+            rowIndex,
+            union,
+            previous: Boolean(checkedStateRef.current[rowIndex]?.[union]),
+            next: isChecked,
+        };
+        applyMark(rowIndex, union, isChecked);
+        setUndoStack(prev => [...prev.slice(-(UNDO_LIMIT - 1)), change]);
+        setRedoStack([]);
+        recordMarkChange(change, 'marcar');
+    }, [applyMark, recordMarkChange]);
+
+    const handleReturnToSearch = useCallback(() => {
         // These updates are urgent and will happen immediately,
         // making the app feel fast.
         setSearchTerm('');
         searchInputRef.current?.focus();
     }, []);
+
+    const handleCheckboxChange = useCallback((rowIndex: number, union: string, isChecked: boolean) => {
+        handleMarkChange(rowIndex, union, isChecked);
+        handleReturnToSearch();
+    }, [handleMarkChange, handleReturnToSearch]);
+
+    const handleUndo = useCallback(() => {
+        const change = undoStack[undoStack.length - 1];
+        if (!change) return;
+        applyMark(change.rowIndex, change.union, change.previous);
+        setUndoStack(prev => prev.slice(0, -1));
+        setRedoStack(prev => [...prev, change]);
+        recordMarkChange({ ...change, previous: change.next, next: change.previous }, 'deshacer');
+        // Show the affected row so the undone change is visible
+        handleJumpToRow(change.rowIndex);
+    }, [undoStack, applyMark, recordMarkChange]);
+
+    const handleRedo = useCallback(() => {
+        const change = redoStack[redoStack.length - 1];
+        if (!change) return;
+        applyMark(change.rowIndex, change.union, change.next);
+        setRedoStack(prev => prev.slice(0, -1));
+        setUndoStack(prev => [...prev, change]);
+        recordMarkChange(change, 'rehacer');
+        handleJumpToRow(change.rowIndex);
+    }, [redoStack, applyMark, recordMarkChange]);
+
+    // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) on the table, leaving text being edited to the browser
+    useEffect(() => {
+        if (view !== 'data') return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const key = event.key.toLowerCase();
+            const isUndo = key === 'z' && !event.shiftKey;
+            const isRedo = key === 'y' || (key === 'z' && event.shiftKey);
+            if (!isUndo && !isRedo) return;
+
+            const target = event.target as HTMLElement;
+            const isEditingText = (target instanceof HTMLInputElement && target.type === 'text' && target.value !== '')
+                || target instanceof HTMLTextAreaElement || target.isContentEditable;
+            if (isEditingText) return;
+
+            event.preventDefault();
+            if (isUndo) {
+                handleUndo();
+            } else {
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [view, handleUndo, handleRedo]);
+
+    const handleCellEdit = useCallback((rowIndex: number, header: string, value: string) => {
+        const original = originalData[rowIndex]?.row[header];
+        setCorrections(prev => {
+            const current = prev[rowIndex]?.[header]?.value ?? String(original ?? '');
+            return value === current ? prev : setCorrection(prev, rowIndex, header, original, value, auditUser || ANONYMOUS_USER);
+        });
+    }, [originalData, auditUser]);
+
+    const handleCellRevert = useCallback((rowIndex: number, header: string) => {
+        setCorrections(prev => removeCorrection(prev, rowIndex, header));
+    }, []);
+
+    // Moves every mark, list and vote of a union to another acronym, or drops them when `to` is null
+    const applyUnionRemap = (from: string, to: string | null) => {
+        const remapped = remapUnion({ checkedState, visibleUnions, results, candidateOrder, substitutes }, from, to);
+        setCheckedState(remapped.checkedState);
+        setVisibleUnions(remapped.visibleUnions);
+        setResults(remapped.results);
+        setCandidateOrder(remapped.candidateOrder);
+        setSubstitutes(remapped.substitutes);
+        if (columnLayout.sort?.byUnion && columnLayout.sort.key === from) {
+            setColumnLayout(prev => ({ ...prev, sort: to === null ? null : { ...prev.sort!, key: to } }));
+        }
+        // The undo history refers to the old acronym
+        setUndoStack([]);
+        setRedoStack([]);
+    };
+
+    const handleAddUnion = (union: UnionDefinition) => {
+        setUnionRegistry(prev => [...prev, union]);
+    };
+
+    const handleUpdateUnion = (acronym: string, changes: Partial<Omit<UnionDefinition, 'acronym'>>) => {
+        setUnionRegistry(prev => prev.map(union => union.acronym === acronym ? { ...union, ...changes } : union));
+    };
+
+    const handleRenameUnion = (from: string, to: string) => {
+        setUnionRegistry(prev => prev.map(union => union.acronym === from ? { ...union, acronym: to } : union));
+        applyUnionRemap(from, to);
+    };
+
+    const handleMergeUnion = (from: string, into: string) => {
+        setUnionRegistry(prev => prev.filter(union => union.acronym !== from));
+        applyUnionRemap(from, into);
+    };
+
+    const handleRemoveUnion = (acronym: string) => {
+        setUnionRegistry(prev => prev.filter(union => union.acronym !== acronym));
+        applyUnionRemap(acronym, null);
+    };
+
+    const handleAuditUserChange = (name: string) => {
+        setAuditUserName(name.trim());
+        setAuditUser(name).catch(() => setError('No se pudo guardar tu nombre.'));
+    };
     
+    const handlePairDecision = (pairKey: string, decision: PairDecision | null) => {
+        setPairDecisions(prev => {
+            const next = { ...prev };
+            if (decision) {
+                next[pairKey] = decision;
+            } else {
+                delete next[pairKey];
+            }
+            return next;
+        });
+    };
+
+    const handleResultChange = (key: string, result: ElectionResult) => {
+        setResults(prev => ({ ...prev, [key]: result }));
+    };
+
+    const handleCandidateOrderChange = (union: string, order: number[]) => {
+        setCandidateOrder(prev => ({ ...prev, [union]: order }));
+    };
+
+    const handleSubstitutesChange = (union: string, unionSubstitutes: number[]) => {
+        setSubstitutes(prev => ({ ...prev, [union]: unionSubstitutes }));
+    };
+
     const handleSaveSettings = (settings: {
         dates: { submissionDate: string; votingDate: string };
         unions: string[];
+        identity: IdentityRule;
+        eligibility: EligibilityRules;
+        colleges: CollegeMapping;
     }) => {
         setElectionDates(settings.dates);
         setVisibleUnions(settings.unions);
+        setIdentityRule(settings.identity);
+        setEligibilityRules(settings.eligibility);
+        setCollegeMapping(settings.colleges);
         setIsDateModalOpen(false);
         saveDataToDB();
     };
     
+    const handleJumpToRow = (rowIndex: number) => {
+        // Clear the search so the row is guaranteed to be in the table
+        setSearchTerm('');
+        setJumpTarget({ rowIndex, requestId: Date.now() });
+    };
+
     const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setSearchTerm(e.target.value);
     };
 
-    const handleClearAndUpload = async () => {
-        await clearState();
+    // Arrow down hands the keyboard over to the table results
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            dataTableRef.current?.focusFirstRow();
+        }
+    };
+
+    const handleShowProjects = async () => {
+        saveDataToDB();
+        await setActiveProjectId(null);
+        setActiveProject(null);
         setHeaders([]);
         setOriginalData([]);
         setFilteredData([]);
@@ -227,8 +832,57 @@ const App: React.FC = () => {
         setFileName('');
         setSearchTerm('');
         setError(null);
+        refreshProjects();
         setView('upload');
     };
+
+    const handleOpenProject = async (projectId: string) => {
+        setView('loading');
+        setError(null);
+        try {
+            const project = await loadState(projectId);
+            if (!project) {
+                throw new Error('No se pudo abrir el proyecto seleccionado.');
+            }
+            await setActiveProjectId(project.id);
+            setActiveProject({ id: project.id, name: project.name });
+            applyState(project.state);
+            setView('data');
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
+            setError(errorMessage);
+            refreshProjects();
+            setView('upload');
+        }
+    };
+
+    const handleRenameProject = async (projectId: string, name: string) => {
+        try {
+            await renameProject(projectId, name);
+        } catch {
+            setError('No se pudo renombrar el proyecto.');
+        }
+        refreshProjects();
+    };
+
+    const handleDuplicateProject = async (projectId: string) => {
+        const source = projects.find(p => p.id === projectId);
+        try {
+            await duplicateProject(projectId, `${source?.name ?? 'Proyecto'} (copia)`);
+        } catch {
+            setError('No se pudo duplicar el proyecto.');
+        }
+        refreshProjects();
+    };
+
+    const handleDeleteProject = async (projectId: string) => {
+        try {
+            await deleteProject(projectId);
+        } catch {
+            setError('No se pudo eliminar el proyecto.');
+        }
+        refreshProjects();
+    };
     
     const exportData = (format: 'xlsx' | 'csv') => {
         if (isExporting) return;
@@ -236,20 +890,37 @@ const App: React.FC = () => {
 
         setTimeout(() => {
             try {
-              const dataToExport = originalData.map(({ row, originalIndex }) => {
+              const duplicateRows = findDuplicateRowIndexes(correctedData.map(d => d.row), checkedState, allUnions, identityRule, headers, pairDecisions);
+              const listPositions = getListPositions(candidateLists);
+              const sourceData = exportOriginalValues ? originalData : correctedData;
+              const dataToExport = sourceData.map(({ row, originalIndex }) => {
                 const newRow: TableRow = { ...row };
                 visibleUnions.forEach(union => {
                   newRow[union] = checkedState[originalIndex]?.[union] ? 'VERDADERO' : 'FALSO';
+                  newRow[getListPositionHeader(union)] = listPositions.get(originalIndex)?.[union] ?? '';
                 });
+                newRow[DUPLICATE_EXPORT_HEADER] = duplicateRows.has(originalIndex) ? 'VERDADERO' : 'FALSO';
+                if (collegeMapping.column) {
+                  newRow[COLLEGE_EXPORT_HEADER] = getCollegeLabel(row, collegeMapping);
+                }
                 return newRow;
               });
         
-              const allHeaders = [...headers, ...visibleUnions];
+              const allHeaders = [
+                ...headers,
+                ...(collegeMapping.column ? [COLLEGE_EXPORT_HEADER] : []),
+                ...visibleUnions,
+                ...visibleUnions.map(getListPositionHeader),
+                DUPLICATE_EXPORT_HEADER,
+              ];
               const worksheet = XLSX.utils.json_to_sheet(dataToExport, { header: allHeaders });
         
               if (format === 'xlsx') {
                 const workbook = XLSX.utils.book_new();
                 XLSX.utils.book_append_sheet(workbook, worksheet, 'Datos Verificados');
+                if (correctionCount > 0) {
+                    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(getCorrectionLogRows()), 'Correcciones');
+                }
                 XLSX.writeFile(workbook, `verificado_${fileName.split('.')[0]}.xlsx`);
               } else {
                 const csvOutput = Papa.unparse(dataToExport, { header: true, columns: allHeaders });
@@ -271,6 +942,29 @@ const App: React.FC = () => {
         }, 100); // Short delay to allow UI update
     };
 
+    const getCorrectionLogRows = () =>
+        buildCorrectionLog(originalData.map(d => d.row), corrections).map(entry => ({
+            'Fila': entry.rowIndex + 1,
+            'Persona': entry.person,
+            'Columna': entry.column,
+            'Valor original': entry.original,
+            'Valor corregido': entry.corrected,
+            'Fecha': new Date(entry.timestamp).toLocaleString('es-ES'),
+            'Usuario': entry.user,
+        }));
+
+    const exportCorrectionLog = () => {
+        const csvOutput = Papa.unparse(getCorrectionLogRows(), { header: true });
+        const blob = new Blob([csvOutput], { type: 'text/csv;charset=utf-8;' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.setAttribute('download', `correcciones_${fileName.split('.')[0]}.csv`);
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        setIsExportMenuOpen(false);
+    };
+
     // Button classes
     const btnBase = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm flex items-center justify-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed";
     const btnSecondary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
@@ -279,14 +973,26 @@ const App: React.FC = () => {
     const renderContent = () => {
         switch (view) {
             case 'loading':
-                return <Spinner message="Cargando datos..." />;
+                return parseTask
+                    ? <ImportProgress progress={parseProgress} onCancel={handleCancelImport} />
+                    : <Spinner message="Cargando datos..." />;
             case 'upload':
                 return (
                     <div className="text-center">
                         <img src={dinosolLogoSrc} alt="Logo de Dinosol" className="w-24 h-24 mx-auto mb-6" />
                         <h1 className="text-3xl font-bold text-gray-800 mb-2">Verificador de Candidaturas</h1>
                         <p className="text-secondary-light mb-8 max-w-lg mx-auto">Sube tu archivo de censo para verificar y gestionar las candidaturas para las elecciones sindicales.</p>
-                        <FileUpload onFileSelect={handleFileSelect} />
+                        <ProjectPicker
+                            projects={projects}
+                            activeProjectId={activeProject?.id ?? null}
+                            newProjectName={newProjectName}
+                            onNewProjectNameChange={setNewProjectName}
+                            onOpen={handleOpenProject}
+                            onRename={handleRenameProject}
+                            onDuplicate={handleDuplicateProject}
+                            onDelete={handleDeleteProject}
+                        />
+                        <FileUpload onFilesSelect={handleFilesSelect} />
                         {error && <p className="mt-4 text-red-600 bg-red-100 p-3 rounded-lg">{error}</p>}
                     </div>
                 );
@@ -297,37 +1003,84 @@ const App: React.FC = () => {
                             <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
                                 <div className="flex items-center gap-3 flex-shrink-0">
                                     <img src={dinosolLogoSrc} alt="Logo de Dinosol" className="w-10 h-10" />
+                                    {activeProject && (
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-gray-800 truncate max-w-xs" title={activeProject.name}>{activeProject.name}</p>
+                                            <p className="text-xs text-secondary-light truncate max-w-xs" title={fileName}>{fileName}</p>
+                                        </div>
+                                    )}
                                 </div>
 
                                 <div className="flex-grow flex items-center justify-center min-w-0">
-                                    <div className="relative w-full lg:w-auto lg:max-w-sm">
-                                        <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                                            <SearchIcon className="h-5 w-5 text-gray-400" />
+                                    <div className="relative w-full lg:w-auto lg:max-w-sm flex items-center gap-1">
+                                        <div className="relative flex-grow">
+                                            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+                                                <SearchIcon className="h-5 w-5 text-gray-400" />
+                                            </div>
+                                            <input
+                                                ref={searchInputRef}
+                                                type="text"
+                                                placeholder="Buscar en la tabla... (↓ para marcar con el teclado)"
+                                                value={searchTerm}
+                                                onChange={handleSearchChange}
+                                                onKeyDown={handleSearchKeyDown}
+                                                className="block w-full rounded-md border-gray-300 py-2 pl-10 pr-4 shadow-sm focus:border-primary focus:ring-primary sm:text-sm"
+                                            />
                                         </div>
-                                        <input
-                                            ref={searchInputRef}
-                                            type="text"
-                                            placeholder="Buscar en la tabla..."
-                                            value={searchTerm}
-                                            onChange={handleSearchChange}
-                                            className="block w-full rounded-md border-gray-300 py-2 pl-10 pr-4 shadow-sm focus:border-primary focus:ring-primary sm:text-sm"
-                                        />
+                                        <SearchHelp />
                                     </div>
                                 </div>
                                 
                                 <div className="flex items-center justify-end gap-2 flex-wrap">
-                                    <button onClick={handleClearAndUpload} className={btnSecondary} title="Cargar Nuevo Archivo">
+                                    <button onClick={handleShowProjects} className={btnSecondary} title="Proyectos y Nuevo Archivo">
+                                        <UploadIcon className="w-5 h-5" />
+                                        <span className="hidden sm:inline">Proyectos</span>
+                                    </button>
+                                    <button onClick={() => replaceCensusInputRef.current?.click()} className={btnSecondary} title="Reemplazar Censo Conservando las Marcas">
                                         <UploadIcon className="w-5 h-5" />
-                                        <span className="hidden sm:inline">Cargar Nuevo</span>
+                                        <span className="hidden sm:inline">Reemplazar Censo</span>
                                     </button>
+                                    <input
+                                        ref={replaceCensusInputRef}
+                                        type="file"
+                                        multiple
+                                        className="hidden"
+                                        onChange={handleReplaceCensus}
+                                        accept=".csv, .json, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+                                    />
                                     <button onClick={() => setIsDateModalOpen(true)} className={btnSecondary} title="Configuración">
                                         <SettingsIcon className="w-5 h-5" />
                                         <span className="hidden sm:inline">Configuración</span>
                                     </button>
+                                    <button onClick={() => setIsListsModalOpen(true)} className={btnSecondary} title="Ordenar Listas de Candidatos">
+                                        <UsersIcon className="w-5 h-5" />
+                                        <span className="hidden sm:inline">Listas</span>
+                                    </button>
                                     <button onClick={() => setIsDuplicatesModalOpen(true)} className={btnSecondary} title="Ver Duplicados">
                                         <UsersIcon className="w-5 h-5" />
                                         <span className="hidden sm:inline">Duplicados</span>
                                     </button>
+                                    <button onClick={handleUndo} disabled={undoStack.length === 0} className={btnSecondary} title="Deshacer (Ctrl+Z)" aria-label="Deshacer">
+                                        <UndoIcon className="w-5 h-5" />
+                                    </button>
+                                    <button onClick={handleRedo} disabled={redoStack.length === 0} className={btnSecondary} title="Rehacer (Ctrl+Y)" aria-label="Rehacer">
+                                        <RedoIcon className="w-5 h-5" />
+                                    </button>
+                                    <button onClick={() => setIsHistoryModalOpen(true)} className={btnSecondary} title="Historial de Cambios">
+                                        <HistoryIcon className="w-5 h-5" />
+                                        <span className="hidden sm:inline">Historial</span>
+                                    </button>
+                                    {importReport && (
+                                        <button onClick={() => setIsImportReportModalOpen(true)} className={btnSecondary} title="Informe de la Última Importación">
+                                            <CSVIcon className="w-5 h-5" />
+                                            <span className="hidden sm:inline">Importación</span>
+                                            {importReport.issues.length > 0 && (
+                                                <span className="ml-1 rounded-full bg-yellow-100 text-yellow-800 px-2 text-xs font-semibold">{importReport.issues.length}</span>
+                                            )}
+                                        </button>
+                                    )}
+                                    
+                                    <ColumnMenu headers={headers} layout={columnLayout} onChange={setColumnLayout} buttonClassName={btnSecondary} />
                                     
                                     <div className="relative" ref={exportMenuRef}>
                                         <button onClick={() => setIsExportMenuOpen(prev => !prev)} disabled={isExporting} className={btnSecondary} title="Exportar Datos">
@@ -337,6 +1090,19 @@ const App: React.FC = () => {
                                         {isExportMenuOpen && (
                                             <div className="origin-top-right absolute right-0 mt-2 w-48 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 focus:outline-none z-20 animate-fade-in-down">
                                                 <div className="py-1" role="menu" aria-orientation="vertical" aria-labelledby="options-menu">
+                                                    {correctionCount > 0 && (
+                                                        <div className="px-4 py-2 border-b border-gray-100 text-xs text-gray-600 space-y-1">
+                                                            <p className="font-semibold text-gray-700">{correctionCount} {correctionCount === 1 ? 'corrección' : 'correcciones'}</p>
+                                                            <label className="flex items-center gap-2">
+                                                                <input type="radio" name="export-values" checked={!exportOriginalValues} onChange={() => setExportOriginalValues(false)} className="h-3.5 w-3.5 text-primary focus:ring-primary" />
+                                                                Con correcciones
+                                                            </label>
+                                                            <label className="flex items-center gap-2">
+                                                                <input type="radio" name="export-values" checked={exportOriginalValues} onChange={() => setExportOriginalValues(true)} className="h-3.5 w-3.5 text-primary focus:ring-primary" />
+                                                                Valores originales
+                                                            </label>
+                                                        </div>
+                                                    )}
                                                     <button onClick={() => exportData('xlsx')} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" role="menuitem">
                                                         <ExcelIcon className="w-5 h-5 text-green-600" />
                                                         <span>Exportar a Excel</span>
@@ -345,34 +1111,98 @@ const App: React.FC = () => {
                                                         <CSVIcon className="w-5 h-5 text-blue-600" />
                                                         <span>Exportar a CSV</span>
                                                     </button>
+                                                    <button
+                                                        onClick={() => { setIsExportMenuOpen(false); setIsCensusListModalOpen(true); }}
+                                                        className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                        role="menuitem"
+                                                    >
+                                                        <PDFIcon className="w-5 h-5 text-red-600" />
+                                                        <span>Listas de electores</span>
+                                                    </button>
+                                                    <button
+                                                        onClick={() => { setIsExportMenuOpen(false); setIsBallotModalOpen(true); }}
+                                                        className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                        role="menuitem"
+                                                    >
+                                                        <PDFIcon className="w-5 h-5 text-red-600" />
+                                                        <span>Papeletas</span>
+                                                    </button>
+                                                    {correctionCount > 0 && (
+                                                        <button onClick={exportCorrectionLog} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" role="menuitem">
+                                                            <CSVIcon className="w-5 h-5 text-blue-600" />
+                                                            <span>Registro de correcciones</span>
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </div>
                                         )}
                                     </div>
+                                    <button onClick={() => setView('results')} className={btnSecondary} title="Resultados de la Votación">
+                                        Resultados
+                                    </button>
                                     <button onClick={() => setView('report')} className={btnPrimary}>
                                         Generar Informe
                                     </button>
                                 </div>
                             </div>
+                            {error && <p className="mt-3 text-sm text-red-600 bg-red-100 p-2 rounded-lg">{error}</p>}
                         </header>
+                        <DataQualityPanel issues={idIssues.list} onJumpToRow={handleJumpToRow} />
                         <main className="flex-grow overflow-y-auto">
                             <DataTable
+                                ref={dataTableRef}
                                 headers={headers}
-                                data={filteredData}
+                                data={displayedData}
                                 unions={visibleUnions}
+                                unionRegistry={unionRegistry}
                                 checkedState={checkedState}
                                 onCheckboxChange={handleCheckboxChange}
+                                onKeyboardMark={handleMarkChange}
+                                onReturnToSearch={handleReturnToSearch}
+                                idIssues={idIssues.byRow}
+                                eligibilityIssues={eligibilityIssues}
+                                jumpTarget={jumpTarget}
+                                columnLayout={columnLayout}
+                                onColumnLayoutChange={setColumnLayout}
+                                corrections={corrections}
+                                onCellEdit={handleCellEdit}
+                                onCellRevert={handleCellRevert}
                             />
                         </main>
                     </div>
                 );
             case 'report':
+                if (!duplicatesReport) return null;
                 return (
                     <Report 
-                        data={originalData.map(d => d.row)}
+                        data={correctedData.map(d => d.row)}
                         checkedState={checkedState}
                         allUnions={allUnions}
                         electionDates={electionDates}
+                        duplicatesReport={duplicatesReport}
+                        identityRule={identityRule}
+                        eligibilityIssues={eligibilityIssues}
+                        workcenterSeats={workcenterSeats}
+                        collegeMapping={collegeMapping}
+                        candidateLists={candidateLists}
+                        unionRegistry={unionRegistry}
+                        onBack={() => setView('data')}
+                    />
+                );
+            case 'results':
+                return (
+                    <ResultsView
+                        data={correctedData.map(d => d.row)}
+                        checkedState={checkedState}
+                        unions={visibleUnions}
+                        workcenterSeats={workcenterSeats}
+                        rowsByUnit={rowsByUnit}
+                        votingDate={electionDates.votingDate}
+                        results={results}
+                        onResultChange={handleResultChange}
+                        candidateOrder={candidateOrder}
+                        substitutes={substitutes}
+                        onEditLists={() => setIsListsModalOpen(true)}
                         onBack={() => setView('data')}
                     />
                 );
@@ -382,7 +1212,7 @@ const App: React.FC = () => {
     return (
         <>
             <SupermarketBackground />
-            <div className={`relative min-h-screen w-full flex ${view === 'data' || view === 'report' ? 'items-stretch' : 'items-center'} justify-center p-2 sm:p-4 lg:p-6 font-sans z-10`}>
+            <div className={`relative min-h-screen w-full flex ${view === 'data' || view === 'report' || view === 'results' ? 'items-stretch' : 'items-center'} justify-center p-2 sm:p-4 lg:p-6 font-sans z-10`}>
                 {renderContent()}
             </div>
 
@@ -391,16 +1221,123 @@ const App: React.FC = () => {
                 onClose={() => setIsDateModalOpen(false)}
                 onSave={handleSaveSettings}
                 currentDates={electionDates}
-                allUnions={allUnions}
+                unionRegistry={unionRegistry}
+                onManageUnions={() => setIsUnionRegistryModalOpen(true)}
                 currentVisibleUnions={visibleUnions}
+                headers={headers}
+                data={correctedData.map(d => d.row)}
+                currentIdentityRule={identityRule}
+                currentEligibilityRules={eligibilityRules}
+                workcenterSeats={workcenterSeats}
+                currentCollegeMapping={collegeMapping}
             />
             
             <DuplicatesModal
                 isOpen={isDuplicatesModalOpen}
                 onClose={() => setIsDuplicatesModalOpen(false)}
-                data={originalData.map(d => d.row)}
-                unions={visibleUnions}
+                report={duplicatesReport}
+                identityRule={identityRule}
+                onPairDecision={handlePairDecision}
+                collegeMapping={collegeMapping}
+                unionRegistry={unionRegistry}
+            />
+
+            <UnionRegistryModal
+                isOpen={isUnionRegistryModalOpen}
+                onClose={() => setIsUnionRegistryModalOpen(false)}
+                registry={unionRegistry}
                 checkedState={checkedState}
+                onAdd={handleAddUnion}
+                onUpdate={handleUpdateUnion}
+                onRename={handleRenameUnion}
+                onMerge={handleMergeUnion}
+                onRemove={handleRemoveUnion}
+            />
+
+            {/* Rendered before the lists modal so "Ordenar listas" opens on top of it */}
+            <BallotModal
+                isOpen={isBallotModalOpen}
+                onClose={() => setIsBallotModalOpen(false)}
+                data={correctedData.map(d => d.row)}
+                unions={visibleUnions}
+                lists={candidateLists}
+                votingDate={electionDates.votingDate}
+                onEditLists={() => setIsListsModalOpen(true)}
+            />
+
+            <CandidateListsModal
+                isOpen={isListsModalOpen}
+                onClose={() => setIsListsModalOpen(false)}
+                data={correctedData.map(d => d.row)}
+                unions={visibleUnions}
+                units={listUnits}
+                lists={candidateLists}
+                candidateOrder={candidateOrder}
+                substitutes={substitutes}
+                onOrderChange={handleCandidateOrderChange}
+                onSubstitutesChange={handleSubstitutesChange}
+            />
+
+            <CensusListModal
+                isOpen={isCensusListModalOpen}
+                onClose={() => setIsCensusListModalOpen(false)}
+                headers={headers}
+                data={correctedData.map(d => d.row)}
+                votingDate={electionDates.votingDate}
+            />
+
+            <CsvFormatModal
+                isOpen={pendingCsv !== null}
+                sources={pendingCsv?.sources ?? []}
+                onConfirm={handleCsvConfirm}
+                onCancel={() => setPendingCsv(null)}
+            />
+
+            <SourcePickerModal
+                isOpen={pendingSources !== null}
+                sources={pendingSources?.sources ?? []}
+                onConfirm={handleSourcesConfirm}
+                onCancel={() => setPendingSources(null)}
+            />
+
+            <TableLayoutModal
+                isOpen={pendingLayout !== null}
+                sources={pendingLayout?.sources ?? []}
+                onConfirm={handleLayoutConfirm}
+                onCancel={() => setPendingLayout(null)}
+            />
+
+            <MappingModal
+                isOpen={pendingImport !== null}
+                onConfirm={handleMappingConfirm}
+                onSkip={handleMappingSkip}
+                initialSuggestions={pendingImport?.suggestions ?? []}
+                sampleRows={pendingSampleRows}
+                defaultProfileName={pendingImport?.fileName.replace(/\.[^.]+$/, '') ?? ''}
+                profiles={mappingProfiles}
+                onDeleteProfile={handleDeleteMappingProfile}
+            />
+
+            <HistoryModal
+                isOpen={isHistoryModalOpen}
+                onClose={() => setIsHistoryModalOpen(false)}
+                projectId={activeProject?.id ?? null}
+                user={auditUser}
+                onUserChange={handleAuditUserChange}
+            />
+
+            <ImportReportModal
+                isOpen={isImportReportModalOpen}
+                onClose={() => setIsImportReportModalOpen(false)}
+                report={importReport}
+            />
+
+            <ReplaceCensusModal
+                isOpen={reconciliationResult !== null}
+                onClose={() => setReconciliationResult(null)}
+                fileName={fileName}
+                result={reconciliationResult}
+                droppedCorrections={droppedCorrections}
             />
         </>
     );
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import type { TableRow } from '../types';
+import type { CandidateList } from '../services/candidateLists';
+import type { BallotLayout, BallotPaperSize } from '../services/ballotPdf';
+import { DEFAULT_BALLOT_LAYOUT, buildBallotsPdf } from '../services/ballotPdf';
+import { PDFIcon } from './Icon';
+
+interface BallotModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: TableRow[];
+  unions: string[];
+  lists: CandidateList[];
+  votingDate: string;
+  onEditLists: () => void;
+}
+
+const PAPER_SIZES: { value: BallotPaperSize; label: string }[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'a5', label: 'A5' },
+  { value: 'a6', label: 'A6' },
+];
+
+const PER_PAGE_OPTIONS: BallotLayout['perPage'][] = [1, 2, 4];
+
+export const BallotModal: React.FC<BallotModalProps> = ({ isOpen, onClose, data, unions, lists, votingDate, onEditLists }) => {
+  const [layout, setLayout] = useState<BallotLayout>(DEFAULT_BALLOT_LAYOUT);
+  const [selectedUnions, setSelectedUnions] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedUnions(unions);
+    }
+  }, [isOpen, unions]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const ballots = lists.filter(list => selectedUnions.includes(list.union) && list.titulares.length > 0);
+  const shortBallots = ballots.filter(list => list.isShort);
+
+  const handleUnionToggle = (union: string) => {
+    setSelectedUnions(prev =>
+      prev.includes(union)
+        ? prev.filter(u => u !== union)
+        : [...prev, union]
+    );
+  };
+
+  const handleGenerate = () => {
+    buildBallotsPdf(ballots, data, layout, votingDate).save('papeletas.pdf');
+    onClose();
+  };
+
+  // Button classes for professional styling
+  const btnBase = "w-full sm:w-auto font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm flex items-center justify-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed";
+  const btnPrimary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
+  const selectClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm mt-1";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-11/12 max-w-lg max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="ballot-modal-title"
+      >
+        <h2 id="ballot-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Papeletas</h2>
+        <p className="text-secondary-light mb-6">
+          Una papeleta por sindicato en cada centro, con sus candidatos en el orden de la lista.{' '}
+          <button onClick={onEditLists} className="font-semibold text-primary hover:underline">Ordenar listas</button>
+        </p>
+
+        <div className="space-y-6">
+          <fieldset>
+            <legend className="text-lg font-semibold mb-3 text-gray-700">Sindicatos</legend>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+              {unions.map(union => (
+                <div key={union} className="flex items-center">
+                  <input
+                    id={`ballot-union-${union}`}
+                    type="checkbox"
+                    checked={selectedUnions.includes(union)}
+                    onChange={() => handleUnionToggle(union)}
+                    className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <label htmlFor={`ballot-union-${union}`} className="ml-3 block text-sm font-medium text-gray-700">{union}</label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-lg font-semibold mb-3 text-gray-700">Formato</legend>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs font-medium text-gray-600">
+                Tamaño del papel
+                <select
+                  value={layout.paperSize}
+                  onChange={(e) => setLayout(prev => ({ ...prev, paperSize: e.target.value as BallotPaperSize }))}
+                  className={selectClass}
+                >
+                  {PAPER_SIZES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Orientación
+                <select
+                  value={layout.orientation}
+                  onChange={(e) => setLayout(prev => ({ ...prev, orientation: e.target.value as BallotLayout['orientation'] }))}
+                  className={selectClass}
+                >
+                  <option value="portrait">Vertical</option>
+                  <option value="landscape">Horizontal</option>
+                </select>
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Papeletas por hoja
+                <select
+                  value={layout.perPage}
+                  onChange={(e) => setLayout(prev => ({ ...prev, perPage: Number(e.target.value) as BallotLayout['perPage'] }))}
+                  className={selectClass}
+                >
+                  {PER_PAGE_OPTIONS.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+              </label>
+              <label className="text-xs font-medium text-gray-600">
+                Tamaño de letra
+                <input
+                  type="number"
+                  min={6}
+                  max={24}
+                  value={layout.fontSize}
+                  onChange={(e) => setLayout(prev => ({ ...prev, fontSize: Math.min(24, Math.max(6, Number(e.target.value) || 6)) }))}
+                  className={selectClass}
+                />
+              </label>
+            </div>
+            <div className="mt-3 flex items-center">
+              <input
+                id="ballot-substitutes"
+                type="checkbox"
+                checked={layout.includeSubstitutes}
+                onChange={(e) => setLayout(prev => ({ ...prev, includeSubstitutes: e.target.checked }))}
+                className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              <label htmlFor="ballot-substitutes" className="ml-3 block text-sm font-medium text-gray-700">Incluir suplentes</label>
+            </div>
+          </fieldset>
+
+          <p className="text-sm text-gray-600">
+            Se generarán {ballots.length} papeletas. Si la lista no cabe, la letra se reduce automáticamente.
+          </p>
+          {shortBallots.length > 0 && (
+            <p className="text-sm text-red-700 bg-red-50 p-2 rounded-lg">
+              Listas con menos titulares que puestos: {shortBallots.map(list => `${list.union} (${list.unit.label})`).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="mt-8 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 border-t border-gray-200 pt-6">
+          <button onClick={onClose} className={btnPrimary}>
+            Cancelar
+          </button>
+          <button onClick={handleGenerate} disabled={ballots.length === 0} className={btnPrimary}>
+            <PDFIcon className="w-5 h-5" />
+            Generar PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import type { TableRow } from '../types';
+import type { ElectoralUnit } from '../services/electionResults';
+import type { CandidateList } from '../services/candidateLists';
+import { moveCandidate } from '../services/candidateLists';
+import { getCandidateLabel } from '../services/candidateIdentity';
+
+interface CandidateListsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  data: TableRow[];
+  unions: string[];
+  units: ElectoralUnit[];
+  lists: CandidateList[];
+  candidateOrder: Record<string, number[]>;
+  substitutes: Record<string, number[]>;
+  onOrderChange: (union: string, order: number[]) => void;
+  onSubstitutesChange: (union: string, substitutes: number[]) => void;
+}
+
+type Section = 'titulares' | 'suplentes';
+
+export const CandidateListsModal: React.FC<CandidateListsModalProps> = ({
+  isOpen, onClose, data, unions, units, lists, candidateOrder, substitutes, onOrderChange, onSubstitutesChange,
+}) => {
+  const [selectedUnion, setSelectedUnion] = useState('');
+  const [selectedUnitKey, setSelectedUnitKey] = useState('');
+  const [dragSource, setDragSource] = useState<{ section: Section; index: number } | null>(null);
+
+  // Al abrir, se selecciona la primera lista con candidatos
+  useEffect(() => {
+    if (isOpen) {
+      const first = lists.find(list => unions.includes(list.union));
+      setSelectedUnion(first?.union ?? unions[0] ?? '');
+      setSelectedUnitKey(first?.unit.key ?? units[0]?.key ?? '');
+    }
+    // Solo al abrir: después manda la selección del usuario
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const unit = units.find(u => u.key === selectedUnitKey);
+  const list = lists.find(l => l.union === selectedUnion && l.unit.key === selectedUnitKey);
+  const titulares = list?.titulares ?? [];
+  const suplentes = list?.suplentes ?? [];
+  const combined = [...titulares, ...suplentes];
+  const shortLists = lists.filter(l => l.isShort && unions.includes(l.union));
+
+  const toCombinedIndex = (section: Section, index: number) =>
+    section === 'titulares' ? index : titulares.length + index;
+
+  const handleDrop = (section: Section, index: number) => {
+    if (!dragSource || dragSource.section !== section) return;
+    onOrderChange(
+      selectedUnion,
+      moveCandidate(combined, candidateOrder[selectedUnion] ?? [], toCombinedIndex(section, dragSource.index), toCombinedIndex(section, index))
+    );
+    setDragSource(null);
+  };
+
+  const handleToggleSubstitute = (rowIndex: number) => {
+    const current = substitutes[selectedUnion] ?? [];
+    onSubstitutesChange(
+      selectedUnion,
+      current.includes(rowIndex) ? current.filter(r => r !== rowIndex) : [...current, rowIndex]
+    );
+  };
+
+  const renderSection = (section: Section, rows: number[]) => (
+    <ol className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+      {rows.map((rowIndex, index) => (
+        <li
+          key={rowIndex}
+          draggable
+          onDragStart={() => setDragSource({ section, index })}
+          onDragOver={(e) => { if (dragSource?.section === section) e.preventDefault(); }}
+          onDrop={() => handleDrop(section, index)}
+          onDragEnd={() => setDragSource(null)}
+          className={`flex items-center gap-3 px-3 py-2 text-sm bg-white cursor-move ${dragSource?.section === section && dragSource.index === index ? 'opacity-50' : ''}`}
+        >
+          <span className="text-gray-400 select-none" aria-hidden="true">⋮⋮</span>
+          <span className="w-8 text-right font-mono text-xs text-gray-500">{section === 'titulares' ? index + 1 : `S${index + 1}`}</span>
+          <span className="flex-grow truncate text-gray-800">{getCandidateLabel(data[rowIndex])}</span>
+          <button
+            onClick={() => handleToggleSubstitute(rowIndex)}
+            className="text-xs font-semibold text-primary hover:underline whitespace-nowrap"
+          >
+            {section === 'titulares' ? 'Pasar a suplente' : 'Pasar a titular'}
+          </button>
+        </li>
+      ))}
+      {rows.length === 0 && (
+        <li className="px-3 py-2 text-sm text-gray-400">Ninguno</li>
+      )}
+    </ol>
+  );
+
+  // Button class for professional styling
+  const btnPrimary = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary";
+  const selectClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="candidate-lists-modal-title"
+      >
+        <h2 id="candidate-lists-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Listas de Candidatos</h2>
+        <p className="text-secondary-light mb-4">
+          Arrastra los candidatos para fijar su orden en la lista. Los titulares ocupan los puestos por orden; los suplentes cubren las vacantes.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+          <label className="text-xs font-medium text-gray-600">
+            Sindicato
+            <select value={selectedUnion} onChange={(e) => setSelectedUnion(e.target.value)} className={`${selectClass} mt-1`}>
+              {unions.map(union => <option key={union} value={union}>{union}</option>)}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Centro
+            <select value={selectedUnitKey} onChange={(e) => setSelectedUnitKey(e.target.value)} className={`${selectClass} mt-1`}>
+              {units.map(u => <option key={u.key} value={u.key}>{u.label} ({u.seats} {u.seats === 1 ? 'puesto' : 'puestos'})</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-grow overflow-y-auto border-t border-gray-200 pt-4 -mx-6 px-6 space-y-4">
+          {units.length === 0 ? (
+            <p className="text-sm text-gray-500">No hay centros con puestos a elegir en el censo cargado.</p>
+          ) : (
+            <>
+              {list?.isShort && unit && (
+                <p className="text-sm text-red-700 bg-red-50 p-2 rounded-lg">
+                  La lista tiene {titulares.length} titulares para {unit.seats} puestos.
+                </p>
+              )}
+              <div>
+                <h3 className="text-lg font-semibold text-primary mb-2">Titulares ({titulares.length})</h3>
+                {renderSection('titulares', titulares)}
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-600 mb-2">Suplentes ({suplentes.length})</h3>
+                {renderSection('suplentes', suplentes)}
+              </div>
+              {shortLists.length > 0 && (
+                <div className="p-3 border border-red-300 bg-red-50 rounded-lg">
+                  <h3 className="text-sm font-semibold text-red-800 mb-1">Listas con menos titulares que puestos</h3>
+                  <ul className="text-sm text-red-700 space-y-0.5">
+                    {shortLists.map(l => (
+                      <li key={`${l.union}-${l.unit.key}`}>
+                        <button
+                          onClick={() => { setSelectedUnion(l.union); setSelectedUnitKey(l.unit.key); }}
+                          className="hover:underline text-left"
+                        >
+                          {l.union} · {l.unit.label}: {l.titulares.length} de {l.unit.seats}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end border-t border-gray-200 pt-4">
+          <button onClick={onClose} className={btnPrimary}>
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
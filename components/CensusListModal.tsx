@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import type { TableRow } from '../types';
+import type { CensusListOptions, IdDisplay } from '../services/censusListPdf';
+import { buildCensusListDocuments, groupCensusByWorkcenter } from '../services/censusListPdf';
+import { findIdColumn } from '../services/idValidation';
+import { findEligibilityColumns } from '../services/eligibility';
+import { PDFIcon } from './Icon';
+
+interface CensusListModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  headers: string[];
+  data: TableRow[];
+  votingDate: string;
+}
+
+const ID_DISPLAY_OPTIONS: { value: IdDisplay; label: string }[] = [
+  { value: 'masked', label: 'DNI parcial (***4567**)' },
+  { value: 'full', label: 'DNI completo' },
+  { value: 'hidden', label: 'Sin DNI' },
+];
+
+export const CensusListModal: React.FC<CensusListModalProps> = ({ isOpen, onClose, headers, data, votingDate }) => {
+  const [options, setOptions] = useState<CensusListOptions>({ mode: 'combined', idDisplay: 'masked', showSeniority: true });
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const hasIdColumn = Boolean(findIdColumn(headers));
+  const hasSeniorityColumn = Boolean(findEligibilityColumns(headers).seniorityColumn);
+  const workcenterCount = groupCensusByWorkcenter(headers, data).length;
+
+  const handleGenerate = () => {
+    buildCensusListDocuments(headers, data, votingDate, options).forEach(({ doc, fileName }) => doc.save(fileName));
+    onClose();
+  };
+
+  // Button classes for professional styling
+  const btnBase = "w-full sm:w-auto font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm flex items-center justify-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2";
+  const btnPrimary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-11/12 max-w-lg max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="census-list-modal-title"
+      >
+        <h2 id="census-list-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Listas de Electores</h2>
+        <p className="text-secondary-light mb-6">
+          Genera las listas para exponer en cada centro, ordenadas por apellidos y con espacio para las firmas de la mesa.
+        </p>
+
+        <div className="space-y-6">
+          <fieldset>
+            <legend className="text-lg font-semibold mb-3 text-gray-700">Documentos</legend>
+            <div className="space-y-2">
+              {([
+                { value: 'combined', label: 'Un único PDF con un salto de página por centro' },
+                { value: 'perWorkcenter', label: `Un PDF por centro (${workcenterCount})` },
+              ] as const).map(({ value, label }) => (
+                <div key={value} className="flex items-center">
+                  <input
+                    id={`census-mode-${value}`}
+                    type="radio"
+                    name="census-mode"
+                    checked={options.mode === value}
+                    onChange={() => setOptions(prev => ({ ...prev, mode: value }))}
+                    className="h-4 w-4 border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <label htmlFor={`census-mode-${value}`} className="ml-3 block text-sm font-medium text-gray-700">{label}</label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-lg font-semibold mb-3 text-gray-700">Columnas</legend>
+            <p className="text-xs text-secondary-light mb-3">El nombre y el número de orden se incluyen siempre.</p>
+            <div className="space-y-2">
+              {ID_DISPLAY_OPTIONS.map(({ value, label }) => (
+                <div key={value} className="flex items-center">
+                  <input
+                    id={`census-id-${value}`}
+                    type="radio"
+                    name="census-id"
+                    disabled={!hasIdColumn && value !== 'hidden'}
+                    checked={hasIdColumn ? options.idDisplay === value : value === 'hidden'}
+                    onChange={() => setOptions(prev => ({ ...prev, idDisplay: value }))}
+                    className="h-4 w-4 border-gray-300 text-primary focus:ring-primary disabled:opacity-50"
+                  />
+                  <label htmlFor={`census-id-${value}`} className="ml-3 block text-sm font-medium text-gray-700">{label}</label>
+                </div>
+              ))}
+              <div className="flex items-center pt-2">
+                <input
+                  id="census-seniority"
+                  type="checkbox"
+                  disabled={!hasSeniorityColumn}
+                  checked={hasSeniorityColumn && options.showSeniority}
+                  onChange={(e) => setOptions(prev => ({ ...prev, showSeniority: e.target.checked }))}
+                  className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary disabled:opacity-50"
+                />
+                <label htmlFor="census-seniority" className="ml-3 block text-sm font-medium text-gray-700">
+                  Antigüedad
+                  {!hasSeniorityColumn && <span className="ml-1 text-xs text-gray-400">(no hay columna de antigüedad)</span>}
+                </label>
+              </div>
+            </div>
+          </fieldset>
+
+          {!votingDate && (
+            <p className="text-sm text-yellow-800 bg-yellow-50 p-2 rounded-lg">
+              No has indicado la fecha de votación: la cabecera la mostrará como no especificada.
+            </p>
+          )}
+        </div>
+
+        <div className="mt-8 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 border-t border-gray-200 pt-6">
+          <button onClick={onClose} className={btnPrimary}>
+            Cancelar
+          </button>
+          <button onClick={handleGenerate} disabled={data.length === 0} className={btnPrimary}>
+            <PDFIcon className="w-5 h-5" />
+            Generar PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
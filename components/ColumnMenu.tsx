@@ -0,0 +1,67 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ColumnLayout } from '../types';
+import { EMPTY_COLUMN_LAYOUT, getOrderedColumns, toggleColumnVisibility } from '../services/columnLayout';
+
+interface ColumnMenuProps {
+  headers: string[];
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+  buttonClassName: string;
+}
+
+// Menú para mostrar u ocultar columnas de la tabla y volver a la disposición del archivo.
+export const ColumnMenu: React.FC<ColumnMenuProps> = ({ headers, layout, onChange, buttonClassName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const orderedColumns = getOrderedColumns(headers, layout);
+  const hiddenCount = layout.hidden.filter(header => headers.includes(header)).length;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button onClick={() => setIsOpen(prev => !prev)} className={buttonClassName} title="Mostrar u Ocultar Columnas">
+        <span className="hidden sm:inline">Columnas</span>
+        <span className="sm:hidden">Col.</span>
+        {hiddenCount > 0 && <span className="text-xs font-normal opacity-80">({hiddenCount} ocultas)</span>}
+      </button>
+      {isOpen && (
+        <div className="origin-top-right absolute right-0 mt-2 w-64 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-20 animate-fade-in-down">
+          <div className="max-h-80 overflow-y-auto py-2">
+            {orderedColumns.map(header => (
+              <label key={header} className="flex items-center gap-3 px-4 py-1.5 text-sm text-gray-700 hover:bg-gray-100 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!layout.hidden.includes(header)}
+                  onChange={() => onChange(toggleColumnVisibility(layout, header))}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                <span className="truncate" title={header}>{header}</span>
+              </label>
+            ))}
+          </div>
+          <div className="border-t border-gray-200 p-2">
+            <button
+              onClick={() => onChange(EMPTY_COLUMN_LAYOUT)}
+              className="w-full text-left px-2 py-1.5 text-sm font-semibold text-primary hover:bg-gray-100 rounded"
+            >
+              Restablecer orden, anchos y columnas
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
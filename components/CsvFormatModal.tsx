@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ParsedSource } from '../services/fileParser';
+import type { CsvFormat, CsvEncoding, CsvDelimiter, DecimalSeparator } from '../services/csvFormat';
+import { CSV_ENCODING_LABELS, CSV_DELIMITER_LABELS, DECIMAL_SEPARATOR_LABELS, parseCsv, parseDecimal } from '../services/csvFormat';
+
+interface CsvFormatModalProps {
+  isOpen: boolean;
+  sources: ParsedSource[];
+  // Recibe solo los formatos cambiados, por posición en `sources`; volver a leer esos CSV toca a quien abre el modal
+  onConfirm: (changedFormats: Record<number, CsvFormat>) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 12;
+const PREVIEW_COLUMNS = 10;
+
+// Las celdas con decimales se muestran como se importarán, para comprobar el separador decimal
+const formatPreviewCell = (value: unknown, decimal: DecimalSeparator): string => {
+  const number = parseDecimal(value, decimal);
+  return number === null ? String(value ?? '') : number.toLocaleString('es-ES');
+};
+
+const sameFormat = (a: CsvFormat, b: CsvFormat): boolean =>
+  a.encoding === b.encoding && a.delimiter === b.delimiter && a.decimal === b.decimal;
+
+// Vista previa de los CSV con la codificación y los separadores detectados, para cambiarlos si no se leen bien.
+export const CsvFormatModal: React.FC<CsvFormatModalProps> = ({ isOpen, sources, onConfirm, onCancel }) => {
+  const csvIndexes = useMemo(
+    () => sources.flatMap((source, index) => source.csv ? [index] : []),
+    [sources]
+  );
+  const [formats, setFormats] = useState<Record<number, CsvFormat>>({});
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) {
+      const detected: Record<number, CsvFormat> = {};
+      csvIndexes.forEach(index => {
+        detected[index] = sources[index].csv!.format;
+      });
+      setFormats(detected);
+      setActiveIndex(csvIndexes[0] ?? 0);
+    }
+  }, [isOpen, sources, csvIndexes]);
+
+  const source = sources[activeIndex];
+  const format = formats[activeIndex];
+
+  const previewRows = useMemo(
+    () => (source?.csv && format ? parseCsv(source.csv.bytes, format, PREVIEW_ROWS).rows : []),
+    [source, format]
+  );
+
+  if (!isOpen || !source?.csv || !format) {
+    return null;
+  }
+
+  const detected = source.csv.format;
+  const updateFormat = (changes: Partial<CsvFormat>) => {
+    setFormats(prev => ({ ...prev, [activeIndex]: { ...prev[activeIndex], ...changes } }));
+  };
+
+  const handleConfirm = () => {
+    const changedFormats: Record<number, CsvFormat> = {};
+    sources.forEach((s, index) => {
+      const chosen = formats[index];
+      if (s.csv && chosen && !sameFormat(chosen, s.csv.format)) {
+        changedFormats[index] = chosen;
+      }
+    });
+    onConfirm(changedFormats);
+  };
+
+  const columnCount = Math.min(PREVIEW_COLUMNS, Math.max(1, ...previewRows.map(row => row.length)));
+  // Los errores de lectura solo se conocen para el formato con que se leyó el archivo
+  const readIssues = sameFormat(format, detected) ? source.csv.issues : [];
+
+  const btnBase = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2";
+  const btnPrimary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
+  const btnSecondary = `${btnBase} bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 focus-visible:ring-primary`;
+  const selectClass = "mt-1 w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm";
+  const detectedHint = (isDetected: boolean) => isDetected ? ' (detectado)' : '';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="csv-format-modal-title"
+      >
+        <h2 id="csv-format-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Formato del CSV</h2>
+        <p className="text-secondary-light mb-4">
+          Comprueba que los nombres con tildes y eñes (Muñoz, Peña) y las columnas se ven bien. Si no, cambia la codificación o los separadores.
+        </p>
+
+        {csvIndexes.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {csvIndexes.map(index => (
+              <button
+                key={index}
+                onClick={() => setActiveIndex(index)}
+                className={`px-3 py-1 rounded-full text-sm border ${index === activeIndex ? 'bg-primary text-white border-primary' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+              >
+                {sources[index].fileName}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+          <label className="text-sm font-medium text-gray-700">
+            Codificación
+            <select value={format.encoding} onChange={(e) => updateFormat({ encoding: e.target.value as CsvEncoding })} className={selectClass}>
+              {(Object.keys(CSV_ENCODING_LABELS) as CsvEncoding[]).map(encoding => (
+                <option key={encoding} value={encoding}>{CSV_ENCODING_LABELS[encoding]}{detectedHint(encoding === detected.encoding)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Separador de campos
+            <select value={format.delimiter} onChange={(e) => updateFormat({ delimiter: e.target.value as CsvDelimiter })} className={selectClass}>
+              {(Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiter[]).map(delimiter => (
+                <option key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}{detectedHint(delimiter === detected.delimiter)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Separador decimal
+            <select value={format.decimal} onChange={(e) => updateFormat({ decimal: e.target.value as DecimalSeparator })} className={selectClass}>
+              {(Object.keys(DECIMAL_SEPARATOR_LABELS) as DecimalSeparator[]).map(decimal => (
+                <option key={decimal} value={decimal}>{DECIMAL_SEPARATOR_LABELS[decimal]}{detectedHint(decimal === detected.decimal)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-grow overflow-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <tbody>
+              {previewRows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b border-gray-100 text-gray-700">
+                  <td className="px-2 py-1 text-right text-xs text-gray-400">{rowIndex + 1}</td>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <td key={column} className="px-2 py-1 max-w-[10rem] truncate" title={String(row[column] ?? '')}>
+                      {formatPreviewCell(row[column], format.decimal)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {readIssues.length > 0 && (
+          <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 p-2 rounded-lg">
+            {readIssues.length} líneas tienen comillas mal cerradas u otros defectos; se importará lo que se pueda leer y el informe de importación las detallará.
+            Por ejemplo: {readIssues[0].line ? `fila ${readIssues[0].line}, ` : ''}{readIssues[0].reason}
+          </p>
+        )}
+
+        <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 flex-shrink-0">
+          <button onClick={onCancel} className={btnSecondary}>Cancelar</button>
+          <button onClick={handleConfirm} className={btnPrimary}>Continuar</button>
+        </div>
+      </div>
+    </div>
+  );
+};
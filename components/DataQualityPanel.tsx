@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import type { DataQualityIssue } from '../services/idValidation';
+
+interface DataQualityPanelProps {
+  issues: DataQualityIssue[];
+  onJumpToRow: (rowIndex: number) => void;
+}
+
+const STATUS_LABELS: Record<DataQualityIssue['status'], string> = {
+  'missing': 'Vacío',
+  'malformed': 'Mal formado',
+  'invalid-letter': 'Letra incorrecta',
+};
+
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ issues, onJumpToRow }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex-shrink-0 border-b border-yellow-300 bg-yellow-50">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm font-semibold text-yellow-800 hover:bg-yellow-100"
+        aria-expanded={isExpanded}
+      >
+        <span>Calidad de datos: {issues.length} {issues.length === 1 ? 'fila con identificador no válido' : 'filas con identificador no válido'} ({issues[0].column})</span>
+        <span>{isExpanded ? 'Ocultar' : 'Ver detalle'}</span>
+      </button>
+      {isExpanded && (
+        <div className="max-h-56 overflow-y-auto border-t border-yellow-200">
+          <table className="min-w-full text-sm">
+            <thead className="bg-yellow-100 sticky top-0">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-yellow-900 uppercase tracking-wider">Fila</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-yellow-900 uppercase tracking-wider">Valor</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-yellow-900 uppercase tracking-wider">Problema</th>
+                <th scope="col" className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-yellow-200">
+              {issues.map(issue => (
+                <tr key={issue.rowIndex} className="hover:bg-yellow-100/60">
+                  <td className="px-4 py-2 font-mono text-gray-700">{issue.rowIndex + 1}</td>
+                  <td className="px-4 py-2 font-mono text-gray-900">{issue.value || '—'}</td>
+                  <td className="px-4 py-2 text-gray-700">
+                    <span className="font-semibold">{STATUS_LABELS[issue.status]}</span>: {issue.message}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => onJumpToRow(issue.rowIndex)}
+                      className="text-xs font-semibold text-primary hover:text-primary-dark hover:underline"
+                    >
+                      Ir a la fila
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,34 +1,40 @@
-import React, { useRef, useState, useLayoutEffect, useMemo } from 'react';
-import type { TableRow } from '../types';
+import React, { useRef, useState, useLayoutEffect, useMemo, useEffect, useCallback, useImperativeHandle, forwardRef } from 'react';
+import type { TableRow, ColumnLayout, Corrections, CellCorrection, UnionDefinition } from '../types';
+import type { DataQualityIssue } from '../services/idValidation';
+import type { EligibilityIssue } from '../services/eligibility';
+import { getCandidateLabel } from '../services/candidateIdentity';
+import { MIN_COLUMN_WIDTH, getVisibleColumns, moveColumn, getNextSort } from '../services/columnLayout';
+import { getUnionDefinition, getUnionDisplayName } from '../services/unionRegistry';
 import { SearchIcon } from './Icon';
 
 interface DataTableProps {
   headers: string[];
   data: { row: TableRow; originalIndex: number }[];
   unions: string[];
+  unionRegistry: UnionDefinition[];
   checkedState: Record<number, Record<string, boolean>>;
   onCheckboxChange: (rowIndex: number, union: string, isChecked: boolean) => void;
+  onKeyboardMark: (rowIndex: number, union: string, isChecked: boolean) => void;
+  onReturnToSearch: () => void;
+  idIssues: Map<number, DataQualityIssue>;
+  eligibilityIssues: Map<number, EligibilityIssue>;
+  jumpTarget: { rowIndex: number; requestId: number } | null;
+  columnLayout: ColumnLayout;
+  onColumnLayoutChange: (layout: ColumnLayout) => void;
+  corrections: Corrections;
+  onCellEdit: (rowIndex: number, header: string, value: string) => void;
+  onCellRevert: (rowIndex: number, header: string) => void;
 }
 
-// Returns Tailwind CSS accent-color classes for styling the checkbox background itself.
-const getUnionCheckboxAccentColor = (union: string): string => {
-  switch (union.toUpperCase()) {
-    case 'CCOO':
-      return 'accent-red-300'; // Rojo pastel claro
-    case 'UGT':
-      return 'accent-blue-300'; // Azul pastel claro
-    case 'SB':
-      return 'accent-orange-300'; // Naranja pastel claro
-    case 'SITCA':
-      return 'accent-violet-300'; // Lila pastel claro
-    default: // OTRO
-      return 'accent-yellow-300'; // Amarillo pastel claro
-  }
-};
+// Permite que el buscador pase el foco a la tabla para seguir marcando con el teclado.
+export interface DataTableHandle {
+  focusFirstRow: () => void;
+}
 
 const ROW_HEIGHT = 57; // Altura estimada de la fila en píxeles. Crítico para los cálculos de virtualización.
 const OVERSCAN_COUNT = 5; // Número de filas a renderizar por encima y por debajo del área visible.
 const UNION_COL_WIDTH = 80; // Ancho fijo para las columnas de sindicatos
+const ELIGIBILITY_COL_WIDTH = 130; // Ancho de la columna de avisos de elegibilidad
 
 /**
  * Determina el ancho de una columna de datos basado en su cabecera.
@@ -54,26 +60,76 @@ const getDataColumnWidth = (header: string): number => {
   return 160; 
 };
 
-// Helper to find likely name/identifier columns
-const getCandidateIdentifier = (row: TableRow): string => {
-    const nameKeys = Object.keys(row).filter(k => /nombre|apellidos|name/i.test(k));
-    if (nameKeys.length > 0) {
-        return nameKeys.map(k => row[k]).join(' ').trim();
-    }
-    // Fallback to the first non-empty value if no name-like key is found
-    return String(Object.values(row).find(v => v) ?? 'Candidato Desconocido');
-}
-
 interface DataRowProps {
   row: TableRow;
   originalIndex: number;
   headers: string[];
   unions: string[];
+  unionColors: Record<string, string>;
+  columnWidths: Record<string, number>;
   rowCheckedState: Record<string, boolean> | undefined;
   onCheckboxChange: (rowIndex: number, union: string, isChecked: boolean) => void;
   isEven: boolean;
+  idIssue: DataQualityIssue | undefined;
+  showEligibilityColumn: boolean;
+  eligibilityIssue: EligibilityIssue | undefined;
+  isHighlighted: boolean;
+  isActive: boolean;
+  rowCorrections: Record<string, CellCorrection> | undefined;
+  editingHeader: string | null;
+  onStartEdit: (rowIndex: number, header: string) => void;
+  onCommitEdit: (rowIndex: number, header: string, value: string) => void;
+  onCancelEdit: () => void;
+  onRevertCorrection: (rowIndex: number, header: string) => void;
+}
+
+interface CellEditorProps {
+  initialValue: string;
+  canRevert: boolean;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+  onRevert: () => void;
 }
 
+// Campo de edición de una celda: Enter o salir del campo guarda, Escape cancela.
+const CellEditor: React.FC<CellEditorProps> = ({ initialValue, canRevert, onCommit, onCancel, onRevert }) => {
+  const [value, setValue] = useState(initialValue);
+  const cancelledRef = useRef(false);
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="text"
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onFocus={(e) => e.target.select()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.currentTarget.blur();
+          } else if (e.key === 'Escape') {
+            cancelledRef.current = true;
+            onCancel();
+          }
+        }}
+        onBlur={() => { if (!cancelledRef.current) onCommit(value); }}
+        className="w-full min-w-0 px-2 py-1 border border-primary rounded text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+      {canRevert && (
+        <button
+          type="button"
+          // Se usa mousedown para adelantarse al blur del campo, que guardaría el valor escrito
+          onMouseDown={(e) => { e.preventDefault(); cancelledRef.current = true; onRevert(); }}
+          className="flex-shrink-0 px-1.5 py-1 rounded text-xs font-semibold text-orange-700 hover:bg-orange-100"
+          title="Restaurar el valor original"
+        >
+          ↺
+        </button>
+      )}
+    </div>
+  );
+};
+
 // Componente de Fila Memoizado para un rendimiento óptimo.
 // Solo se volverá a renderizar si sus props específicas cambian.
 const DataRow: React.FC<DataRowProps> = React.memo(({
@@ -81,35 +137,193 @@ const DataRow: React.FC<DataRowProps> = React.memo(({
   originalIndex,
   headers,
   unions,
+  unionColors,
+  columnWidths,
   rowCheckedState,
   onCheckboxChange,
-  isEven
+  isEven,
+  idIssue,
+  showEligibilityColumn,
+  eligibilityIssue,
+  isHighlighted,
+  isActive,
+  rowCorrections,
+  editingHeader,
+  onStartEdit,
+  onCommitEdit,
+  onCancelEdit,
+  onRevertCorrection
 }) => {
+  const rowBackground = isActive ? 'bg-green-100' : isHighlighted ? 'bg-yellow-100' : isEven ? 'bg-white' : 'bg-gray-50/70';
   return (
-    <tr className={`${isEven ? 'bg-white' : 'bg-gray-50/70'} hover:bg-green-50 transition-colors duration-150 border-b border-gray-200`} style={{ height: `${ROW_HEIGHT}px` }}>
+    <tr
+      className={`${rowBackground} hover:bg-green-50 transition-colors duration-150 border-b border-gray-200 ${isActive ? 'outline outline-2 -outline-offset-2 outline-primary' : ''}`}
+      style={{ height: `${ROW_HEIGHT}px` }}
+      aria-selected={isActive || undefined}
+    >
       {unions.map((union) => (
         <td key={union} className="px-4 py-4 sticky left-0 bg-inherit transition-colors duration-150 whitespace-nowrap overflow-hidden text-ellipsis" style={{ width: `${UNION_COL_WIDTH}px` }}>
             <input
                 type="checkbox"
-                className={`h-5 w-5 rounded border-gray-400 focus:ring-primary ${getUnionCheckboxAccentColor(union)}`}
+                className="h-5 w-5 rounded border-gray-400 focus:ring-primary"
+                // El color de la casilla es el del sindicato en el registro
+                style={{ accentColor: unionColors[union] }}
                 checked={rowCheckedState?.[union] ?? false}
                 onChange={(e) => onCheckboxChange(originalIndex, union, e.target.checked)}
-                aria-label={`Marcar ${getCandidateIdentifier(row)} para ${union}`}
+                aria-label={`Marcar ${getCandidateLabel(row)} para ${union}`}
             />
         </td>
       ))}
-      {headers.map((header, colIndex) => (
-        <td key={`${originalIndex}-${colIndex}`} className="px-6 py-4 text-sm text-secondary break-words whitespace-nowrap overflow-hidden text-ellipsis" style={{ width: `${getDataColumnWidth(header)}px` }}>
-          {String(row[header] ?? '')}
+      {showEligibilityColumn && (
+        <td className="px-3 py-4 whitespace-nowrap overflow-hidden text-ellipsis" style={{ width: `${ELIGIBILITY_COL_WIDTH}px` }}>
+          {eligibilityIssue && (
+            <span
+              className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${eligibilityIssue.role === 'candidato' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}
+              title={eligibilityIssue.reasons.join('. ')}
+            >
+              {eligibilityIssue.role === 'candidato' ? 'No elegible' : 'No elector'}
+            </span>
+          )}
         </td>
-      ))}
+      )}
+      {headers.map((header, colIndex) => {
+        const hasIssue = idIssue?.column === header;
+        const correction = rowCorrections?.[header];
+        const cellStyle = hasIssue ? 'text-red-700 font-semibold bg-red-50' : correction ? 'text-secondary bg-orange-50' : 'text-secondary';
+        const correctionNote = correction
+          ? `Corregido por ${correction.user} (original: "${correction.original}"). Doble clic para editar.`
+          : 'Doble clic para corregir';
+        return (
+          <td
+            key={`${originalIndex}-${colIndex}`}
+            className={`relative ${editingHeader === header ? 'px-2' : 'px-6'} py-4 text-sm break-words whitespace-nowrap overflow-hidden text-ellipsis ${cellStyle}`}
+            style={{ width: `${columnWidths[header]}px` }}
+            title={hasIssue ? `${idIssue.message}. ${correctionNote}` : correctionNote}
+            onDoubleClick={() => onStartEdit(originalIndex, header)}
+          >
+            {editingHeader === header ? (
+              <CellEditor
+                initialValue={String(row[header] ?? '')}
+                canRevert={Boolean(correction)}
+                onCommit={(value) => onCommitEdit(originalIndex, header, value)}
+                onCancel={onCancelEdit}
+                onRevert={() => onRevertCorrection(originalIndex, header)}
+              />
+            ) : (
+              <>
+                {String(row[header] ?? '')}
+                {correction && (
+                  <span className="absolute top-0 right-0 w-0 h-0 border-t-8 border-l-8 border-t-orange-400 border-l-transparent" aria-label="Valor corregido" />
+                )}
+              </>
+            )}
+          </td>
+        );
+      })}
     </tr>
   );
 });
 
-export const DataTable: React.FC<DataTableProps> = React.memo(({ headers, data, unions, checkedState, onCheckboxChange }) => {
+export const DataTable = React.memo(forwardRef<DataTableHandle, DataTableProps>(({
+  headers, data, unions, unionRegistry, checkedState, onCheckboxChange, onKeyboardMark, onReturnToSearch, idIssues, eligibilityIssues, jumpTarget,
+  columnLayout, onColumnLayoutChange, corrections, onCellEdit, onCellRevert,
+}, ref) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [visibleRange, setVisibleRange] = useState({ start: 0, end: 0 });
+  const handledJumpRef = useRef<number | null>(null);
+  // Filas del render anterior, para saber qué fila estaba activa cuando cambian los datos
+  const previousDataRef = useRef(data);
+  // Posición (dentro de los datos filtrados) de la fila activa para el teclado
+  const [activePosition, setActivePosition] = useState<number | null>(null);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [resizeDraft, setResizeDraft] = useState<{ header: string; width: number } | null>(null);
+  const [editingCell, setEditingCell] = useState<{ rowIndex: number; header: string } | null>(null);
+
+  // Coloca el scroll en la posición indicada y recalcula las filas a renderizar
+  const scrollToPosition = (position: number, center: boolean) => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+    const headerHeight = container.querySelector('thead')?.clientHeight ?? 0;
+    const rowTop = position * ROW_HEIGHT;
+    let scrollTop = container.scrollTop;
+    if (center) {
+      scrollTop = Math.max(0, rowTop - container.clientHeight / 2);
+    } else if (rowTop < scrollTop) {
+      scrollTop = rowTop;
+    } else if (rowTop + ROW_HEIGHT > scrollTop + container.clientHeight - headerHeight) {
+      scrollTop = rowTop + ROW_HEIGHT - container.clientHeight + headerHeight;
+    }
+    container.scrollTop = scrollTop;
+    setVisibleRange({
+      start: Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_COUNT),
+      end: Math.min(data.length, Math.ceil((scrollTop + container.clientHeight) / ROW_HEIGHT) + OVERSCAN_COUNT),
+    });
+  };
+
+  useImperativeHandle(ref, () => ({
+    focusFirstRow: () => {
+      if (data.length === 0) return;
+      setActivePosition(0);
+      scrollToPosition(0, false);
+      scrollContainerRef.current?.focus();
+    },
+  }));
+
+  // Las filas cambian con cada búsqueda, y también al marcar si se filtra u ordena por las marcas:
+  // si se está usando el teclado, el cursor sigue en la misma fila y solo vuelve a la primera si ya no está
+  useEffect(() => {
+    const activeRow = activePosition !== null ? previousDataRef.current[activePosition] : undefined;
+    previousDataRef.current = data;
+    const isFocused = document.activeElement === scrollContainerRef.current;
+    if (!isFocused || data.length === 0) {
+      setActivePosition(null);
+      return;
+    }
+    const position = activeRow ? data.findIndex(item => item.originalIndex === activeRow.originalIndex) : -1;
+    setActivePosition(position === -1 ? 0 : position);
+  }, [data]);
+
+  // Desplaza la tabla hasta la fila solicitada en cuanto esa fila esté entre los datos mostrados
+  useEffect(() => {
+    if (!jumpTarget || !scrollContainerRef.current || handledJumpRef.current === jumpTarget.requestId) return;
+    const position = data.findIndex(item => item.originalIndex === jumpTarget.rowIndex);
+    if (position === -1) return;
+
+    handledJumpRef.current = jumpTarget.requestId;
+    scrollToPosition(position, true);
+  }, [jumpTarget, data]);
+
+  /**
+   * Flechas para moverse por los resultados, números para marcar el sindicato de esa
+   * columna y Enter (o Escape) para volver al buscador.
+   */
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || data.length === 0) return;
+    // Las teclas pertenecen a la celda que se está corrigiendo
+    if (editingCell) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const next = activePosition === null ? 0 : Math.min(data.length - 1, Math.max(0, activePosition + step));
+      setActivePosition(next);
+      scrollToPosition(next, false);
+      return;
+    }
+    if (e.key === 'Enter' || e.key === 'Escape') {
+      e.preventDefault();
+      setActivePosition(null);
+      onReturnToSearch();
+      return;
+    }
+    const unionIndex = Number(e.key) - 1;
+    if (/^[1-9]$/.test(e.key) && unionIndex < unions.length && activePosition !== null) {
+      e.preventDefault();
+      const { originalIndex } = data[activePosition];
+      const union = unions[unionIndex];
+      onKeyboardMark(originalIndex, union, !(checkedState[originalIndex]?.[union] ?? false));
+    }
+  };
 
   // Efecto para calcular el rango visible inicial basado en la altura del contenedor
   useLayoutEffect(() => {
@@ -144,12 +358,92 @@ export const DataTable: React.FC<DataTableProps> = React.memo(({ headers, data,
     };
   }, [data, visibleRange]);
   
+  const unionColors = useMemo(
+    () => Object.fromEntries(unions.map(union => [union, getUnionDefinition(unionRegistry, union).color])),
+    [unions, unionRegistry]
+  );
+
+  // Columnas visibles en el orden elegido y su ancho (el guardado o el estimado por la cabecera)
+  const visibleHeaders = useMemo(() => getVisibleColumns(headers, columnLayout), [headers, columnLayout]);
+  const columnWidths = useMemo(() => {
+    const widths: Record<string, number> = {};
+    visibleHeaders.forEach(header => {
+      widths[header] = resizeDraft?.header === header
+        ? resizeDraft.width
+        : columnLayout.widths[header] ?? getDataColumnWidth(header);
+    });
+    return widths;
+  }, [visibleHeaders, columnLayout.widths, resizeDraft]);
+
   // Calcular el ancho total de la tabla dinámicamente
+  const showEligibilityColumn = eligibilityIssues.size > 0;
   const totalWidth = useMemo(() => {
     const unionsWidth = unions.length * UNION_COL_WIDTH;
-    const dataWidth = headers.reduce((sum, header) => sum + getDataColumnWidth(header), 0);
-    return unionsWidth + dataWidth;
-  }, [unions, headers]);
+    const eligibilityWidth = showEligibilityColumn ? ELIGIBILITY_COL_WIDTH : 0;
+    const dataWidth = visibleHeaders.reduce((sum, header) => sum + columnWidths[header], 0);
+    return unionsWidth + eligibilityWidth + dataWidth;
+  }, [unions, visibleHeaders, columnWidths, showEligibilityColumn]);
+  const columnCount = unions.length + (showEligibilityColumn ? 1 : 0) + visibleHeaders.length;
+
+  const handleSort = (key: string, byUnion: boolean) => {
+    onColumnLayoutChange({ ...columnLayout, sort: getNextSort(columnLayout.sort, key, byUnion) });
+  };
+
+  const getSortState = (key: string, byUnion: boolean): 'ascending' | 'descending' | undefined => {
+    const sort = columnLayout.sort;
+    if (!sort || sort.key !== key || Boolean(sort.byUnion) !== byUnion) return undefined;
+    return sort.direction === 'asc' ? 'ascending' : 'descending';
+  };
+
+  const renderSortIndicator = (key: string, byUnion: boolean) => {
+    const state = getSortState(key, byUnion);
+    return state ? <span className="ml-1" aria-hidden="true">{state === 'ascending' ? '▲' : '▼'}</span> : null;
+  };
+
+  // Arrastrar el borde derecho de una cabecera cambia su ancho; se guarda al soltar
+  const handleResizeStart = (e: React.MouseEvent, header: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = columnWidths[header];
+    let width = startWidth;
+
+    const onMouseMove = (event: MouseEvent) => {
+      width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + event.clientX - startX));
+      setResizeDraft({ header, width });
+    };
+    const onMouseUp = () => {
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+      setResizeDraft(null);
+      if (width !== startWidth) {
+        onColumnLayoutChange({ ...columnLayout, widths: { ...columnLayout.widths, [header]: width } });
+      }
+    };
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+  };
+
+  // Callbacks estables para que las filas memoizadas no se rendericen de nuevo
+  const handleStartEdit = useCallback((rowIndex: number, header: string) => {
+    setEditingCell({ rowIndex, header });
+  }, []);
+  const handleCancelEdit = useCallback(() => setEditingCell(null), []);
+  const handleCommitEdit = useCallback((rowIndex: number, header: string, value: string) => {
+    setEditingCell(null);
+    onCellEdit(rowIndex, header, value);
+  }, [onCellEdit]);
+  const handleRevertCorrection = useCallback((rowIndex: number, header: string) => {
+    setEditingCell(null);
+    onCellRevert(rowIndex, header);
+  }, [onCellRevert]);
+
+  const handleColumnDrop = (target: string) => {
+    if (draggedColumn && draggedColumn !== target) {
+      onColumnLayoutChange(moveColumn(headers, columnLayout, draggedColumn, target));
+    }
+    setDraggedColumn(null);
+  };
 
 
   if (data.length === 0) {
@@ -166,29 +460,61 @@ export const DataTable: React.FC<DataTableProps> = React.memo(({ headers, data,
     <div 
       ref={scrollContainerRef}
       onScroll={onScroll}
-      className="w-full h-full overflow-auto bg-gray-50"
+      onKeyDown={onKeyDown}
+      tabIndex={0}
+      className="w-full h-full overflow-auto bg-gray-50 focus:outline-none"
+      aria-label="Tabla del censo: flechas para moverse, números para marcar y Enter para volver al buscador"
     >
       <table className="min-w-full" style={{ tableLayout: 'fixed', width: totalWidth }}>
         <thead className="bg-primary sticky top-0 z-10 border-b-2 border-primary-dark">
           <tr>
-            {unions.map((union) => (
+            {unions.map((union, unionIndex) => (
               <th
                 key={union}
                 scope="col"
-                className="px-4 py-3 text-left text-xs font-bold text-white uppercase tracking-wider sticky left-0 bg-inherit"
-                style={{ width: `${UNION_COL_WIDTH}px` }}
+                className="px-4 py-3 text-left text-xs font-bold text-white uppercase tracking-wider sticky left-0 bg-inherit cursor-pointer select-none whitespace-nowrap"
+                style={{ width: `${UNION_COL_WIDTH}px`, boxShadow: `inset 0 -4px 0 ${unionColors[union]}` }}
+                title={`${getUnionDisplayName(getUnionDefinition(unionRegistry, union))}${unionIndex < 9 ? ` · Tecla ${unionIndex + 1}` : ''} · Clic para ordenar por marca`}
+                onClick={() => handleSort(union, true)}
+                aria-sort={getSortState(union, true)}
               >
+                {unionIndex < 9 && <span className="mr-1 font-mono font-normal opacity-70">{unionIndex + 1}</span>}
                 {union}
+                {renderSortIndicator(union, true)}
               </th>
             ))}
-            {headers.map((header) => (
+            {showEligibilityColumn && (
+              <th
+                scope="col"
+                className="px-3 py-3 text-left text-xs font-bold text-white uppercase tracking-wider"
+                style={{ width: `${ELIGIBILITY_COL_WIDTH}px` }}
+              >
+                Elegibilidad
+              </th>
+            )}
+            {visibleHeaders.map((header) => (
               <th
                 key={header}
                 scope="col"
-                className="px-6 py-3 text-left text-xs font-bold text-white uppercase tracking-wider"
-                style={{ width: `${getDataColumnWidth(header)}px` }}
+                draggable
+                onDragStart={() => setDraggedColumn(header)}
+                onDragOver={(e) => { if (draggedColumn) e.preventDefault(); }}
+                onDrop={() => handleColumnDrop(header)}
+                onDragEnd={() => setDraggedColumn(null)}
+                onClick={() => handleSort(header, false)}
+                aria-sort={getSortState(header, false)}
+                title="Clic para ordenar · Arrastra para mover la columna"
+                className={`relative px-6 py-3 text-left text-xs font-bold text-white uppercase tracking-wider cursor-pointer select-none whitespace-nowrap overflow-hidden text-ellipsis ${draggedColumn === header ? 'opacity-50' : ''}`}
+                style={{ width: `${columnWidths[header]}px` }}
               >
                 {header}
+                {renderSortIndicator(header, false)}
+                <span
+                  onMouseDown={(e) => handleResizeStart(e, header)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute top-0 right-0 h-full w-2 cursor-col-resize hover:bg-white/30"
+                  aria-hidden="true"
+                />
               </th>
             ))}
           </tr>
@@ -197,7 +523,7 @@ export const DataTable: React.FC<DataTableProps> = React.memo(({ headers, data,
           {/* Fila espaciadora superior */}
           {topPadding > 0 && (
             <tr>
-              <td colSpan={unions.length + headers.length} style={{ height: `${topPadding}px` }} />
+              <td colSpan={columnCount} style={{ height: `${topPadding}px` }} />
             </tr>
           )}
 
@@ -207,22 +533,35 @@ export const DataTable: React.FC<DataTableProps> = React.memo(({ headers, data,
                 key={originalIndex}
                 row={row}
                 originalIndex={originalIndex}
-                headers={headers}
+                headers={visibleHeaders}
                 unions={unions}
+                unionColors={unionColors}
+                columnWidths={columnWidths}
                 rowCheckedState={checkedState[originalIndex]}
                 onCheckboxChange={onCheckboxChange}
                 isEven={index % 2 === 0}
+                idIssue={idIssues.get(originalIndex)}
+                showEligibilityColumn={showEligibilityColumn}
+                eligibilityIssue={eligibilityIssues.get(originalIndex)}
+                isHighlighted={jumpTarget?.rowIndex === originalIndex}
+                isActive={activePosition === visibleRange.start + index}
+                rowCorrections={corrections[originalIndex]}
+                editingHeader={editingCell?.rowIndex === originalIndex ? editingCell.header : null}
+                onStartEdit={handleStartEdit}
+                onCommitEdit={handleCommitEdit}
+                onCancelEdit={handleCancelEdit}
+                onRevertCorrection={handleRevertCorrection}
             />
           ))}
 
           {/* Fila espaciadora inferior */}
           {bottomPadding > 0 && (
             <tr>
-              <td colSpan={unions.length + headers.length} style={{ height: `${bottomPadding}px` }} />
+              <td colSpan={columnCount} style={{ height: `${bottomPadding}px` }} />
             </tr>
           )}
         </tbody>
       </table>
     </div>
   );
-});
\ No newline at end of file
+}));
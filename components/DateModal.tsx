@@ -1,5 +1,13 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { TableRow, IdentityRule, EligibilityRules, CollegeMapping, ElectoralCollege, UnionDefinition } from '../types';
+import type { WorkcenterSeats } from '../services/seatCalculation';
+import { COLLEGES, COLLEGE_LABELS, findCategoryColumn, listCategoryValues, suggestCollege } from '../services/electoralColleges';
+import { SeatSummaryTable } from './SeatSummaryTable';
+import { UnionLabel } from './UnionLabel';
+import { getUnionDefinition } from '../services/unionRegistry';
+import { ElectoralTimeline } from './ElectoralTimeline';
+import { buildElectoralCalendar } from '../services/electoralCalendar';
 
 interface DateModalProps {
   isOpen: boolean;
@@ -7,31 +15,77 @@ interface DateModalProps {
   onSave: (settings: {
     dates: { submissionDate: string; votingDate: string };
     unions: string[];
+    identity: IdentityRule;
+    eligibility: EligibilityRules;
+    colleges: CollegeMapping;
   }) => void;
   currentDates: { submissionDate: string; votingDate: string };
-  allUnions: string[];
+  unionRegistry: UnionDefinition[];
+  onManageUnions: () => void;
   currentVisibleUnions: string[];
+  headers: string[];
+  data: TableRow[];
+  currentIdentityRule: IdentityRule;
+  currentEligibilityRules: EligibilityRules;
+  workcenterSeats: WorkcenterSeats[];
+  currentCollegeMapping: CollegeMapping;
 }
 
+const IDENTITY_MODES: { value: IdentityRule['mode']; label: string }[] = [
+  { value: 'dni', label: 'Por DNI/NIF (si falta, por nombre)' },
+  { value: 'name', label: 'Por apellidos y nombre' },
+  { value: 'columns', label: 'Por columnas elegidas' },
+];
+
+const ELIGIBILITY_FIELDS: { key: keyof EligibilityRules; label: string }[] = [
+  { key: 'candidateMinAge', label: 'Edad mínima candidatos (años)' },
+  { key: 'candidateMinSeniorityMonths', label: 'Antigüedad mínima candidatos (meses)' },
+  { key: 'electorMinAge', label: 'Edad mínima electores (años)' },
+  { key: 'electorMinSeniorityMonths', label: 'Antigüedad mínima electores (meses)' },
+];
+
 export const DateModal: React.FC<DateModalProps> = ({ 
   isOpen, 
   onClose, 
   onSave, 
   currentDates,
-  allUnions,
+  unionRegistry,
+  onManageUnions,
   currentVisibleUnions,
+  headers,
+  data,
+  currentIdentityRule,
+  currentEligibilityRules,
+  workcenterSeats,
+  currentCollegeMapping,
 }) => {
   const [submissionDate, setSubmissionDate] = useState('');
   const [votingDate, setVotingDate] = useState('');
   const [selectedUnions, setSelectedUnions] = useState<string[]>([]);
+  const [identityRule, setIdentityRule] = useState<IdentityRule>(currentIdentityRule);
+  const [eligibilityRules, setEligibilityRules] = useState<EligibilityRules>(currentEligibilityRules);
+  const [collegeMapping, setCollegeMapping] = useState<CollegeMapping>(currentCollegeMapping);
 
   useEffect(() => {
     if (isOpen) {
       setSubmissionDate(currentDates.submissionDate || '');
       setVotingDate(currentDates.votingDate || '');
       setSelectedUnions(currentVisibleUnions);
+      setIdentityRule(currentIdentityRule);
+      setEligibilityRules(currentEligibilityRules);
+      setCollegeMapping(currentCollegeMapping);
     }
-  }, [isOpen, currentDates, currentVisibleUnions]);
+  }, [isOpen, currentDates, currentVisibleUnions, currentIdentityRule, currentEligibilityRules, currentCollegeMapping]);
+
+  const calendar = useMemo(
+    () => buildElectoralCalendar({ submissionDate, votingDate }),
+    [submissionDate, votingDate]
+  );
+
+  const categoryValues = useMemo(
+    () => (isOpen && collegeMapping.column ? listCategoryValues(data, collegeMapping.column) : []),
+    [isOpen, data, collegeMapping.column]
+  );
 
   if (!isOpen) {
     return null;
@@ -45,10 +99,45 @@ export const DateModal: React.FC<DateModalProps> = ({
     );
   };
 
+  const handleIdentityColumnToggle = (column: string) => {
+    setIdentityRule(prev => ({
+      ...prev,
+      columns: prev.columns.includes(column)
+        ? prev.columns.filter(c => c !== column)
+        : [...prev.columns, column],
+    }));
+  };
+
+  // Al elegir la columna se propone un colegio para cada categoría, que el usuario puede corregir
+  const handleCategoryColumnChange = (column: string) => {
+    const assignments: Record<string, ElectoralCollege> = {};
+    if (column) {
+      listCategoryValues(data, column).forEach(({ value }) => {
+        assignments[value] = suggestCollege(value);
+      });
+    }
+    setCollegeMapping({ column, assignments });
+  };
+
+  const handleCollegeAssignment = (category: string, college: ElectoralCollege | '') => {
+    setCollegeMapping(prev => {
+      const assignments = { ...prev.assignments };
+      if (college) {
+        assignments[category] = college;
+      } else {
+        delete assignments[category];
+      }
+      return { ...prev, assignments };
+    });
+  };
+
   const handleSave = () => {
     onSave({ 
         dates: { submissionDate, votingDate },
         unions: selectedUnions,
+        identity: identityRule,
+        eligibility: eligibilityRules,
+        colleges: collegeMapping,
     });
   };
   
@@ -63,7 +152,7 @@ export const DateModal: React.FC<DateModalProps> = ({
       onClick={onClose}
     >
       <div 
-        className="bg-white rounded-xl shadow-2xl p-6 w-11/12 max-w-md max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        className="bg-white rounded-xl shadow-2xl p-6 w-11/12 max-w-2xl max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
         onClick={(e) => e.stopPropagation()}
         role="dialog"
         aria-modal="true"
@@ -101,13 +190,101 @@ export const DateModal: React.FC<DateModalProps> = ({
                   />
                 </div>
               </div>
+              <div className="mt-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">Calendario electoral</p>
+                <ElectoralTimeline calendar={calendar} />
+              </div>
           </fieldset>
           
+          {/* Sección de Representantes */}
+          <fieldset>
+            <legend className="text-lg font-semibold mb-1 text-gray-700">Representantes por Centro</legend>
+            <p className="text-xs text-secondary-light mb-3">Calculados a partir de la plantilla de cada centro en el censo cargado.</p>
+            <SeatSummaryTable seats={workcenterSeats} unions={currentVisibleUnions} />
+          </fieldset>
+
+          {/* Sección de Colegios Electorales */}
+          <fieldset>
+            <legend className="text-lg font-semibold mb-1 text-gray-700">Colegios Electorales</legend>
+            <p className="text-xs text-secondary-light mb-3">
+              En los centros con comité se vota por separado en cada colegio. Elige la columna de categoría o grupo profesional y asigna cada valor a su colegio.
+            </p>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <select
+                id="college-column"
+                value={collegeMapping.column}
+                onChange={(e) => handleCategoryColumnChange(e.target.value)}
+                className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+              >
+                <option value="">Sin colegios (colegio único)</option>
+                {headers.map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+              {!collegeMapping.column && findCategoryColumn(headers) && (
+                <button
+                  onClick={() => handleCategoryColumnChange(findCategoryColumn(headers)!)}
+                  className="text-xs font-semibold text-primary hover:underline"
+                >
+                  Usar "{findCategoryColumn(headers)}"
+                </button>
+              )}
+            </div>
+            {collegeMapping.column && (
+              <div className="mt-3 max-h-56 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {categoryValues.map(({ value, count }) => (
+                  <div key={value} className="flex items-center justify-between gap-3 px-3 py-1.5 text-sm">
+                    <span className="truncate text-gray-700" title={value}>
+                      {value} <span className="text-xs text-gray-400">({count})</span>
+                    </span>
+                    <select
+                      value={collegeMapping.assignments[value] ?? ''}
+                      onChange={(e) => handleCollegeAssignment(value, e.target.value as ElectoralCollege | '')}
+                      className={`px-2 py-1 border rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-primary ${collegeMapping.assignments[value] ? 'border-gray-300' : 'border-yellow-400 bg-yellow-50'}`}
+                    >
+                      <option value="">Sin asignar</option>
+                      {COLLEGES.map(college => (
+                        <option key={college} value={college}>{COLLEGE_LABELS[college]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </fieldset>
+
+          {/* Sección de Elegibilidad */}
+          <fieldset>
+            <legend className="text-lg font-semibold mb-1 text-gray-700">Requisitos de Elegibilidad</legend>
+            <p className="text-xs text-secondary-light mb-3">Se comprueban en la fecha de votación con las columnas de nacimiento y antigüedad del censo.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+              {ELIGIBILITY_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <label htmlFor={`eligibility-${key}`} className="block text-xs font-medium text-gray-700 mb-1">
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    id={`eligibility-${key}`}
+                    min={0}
+                    value={eligibilityRules[key]}
+                    onChange={(e) => setEligibilityRules(prev => ({ ...prev, [key]: Math.max(0, Number(e.target.value) || 0) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
           {/* Sección de Sindicatos */}
           <fieldset>
-            <legend className="text-lg font-semibold mb-3 text-gray-700">Sindicatos Visibles</legend>
+            <legend className="text-lg font-semibold mb-1 text-gray-700">Sindicatos Visibles</legend>
+            <p className="text-xs text-secondary-light mb-3">
+              Elige qué sindicatos aparecen en la tabla.{' '}
+              <button type="button" onClick={onManageUnions} className="font-semibold text-primary hover:underline">Gestionar sindicatos y agrupaciones</button>
+            </p>
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
-              {allUnions.map((union) => (
+              {unionRegistry.map(({ acronym: union }) => (
                 <div key={union} className="flex items-center">
                   <input
                     id={`union-checkbox-${union}`}
@@ -117,12 +294,81 @@ export const DateModal: React.FC<DateModalProps> = ({
                     className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
                   />
                   <label htmlFor={`union-checkbox-${union}`} className="ml-3 block text-sm font-medium text-gray-700">
-                    {union}
+                    <UnionLabel union={getUnionDefinition(unionRegistry, union)} showName />
                   </label>
                 </div>
               ))}
             </div>
           </fieldset>
+
+          {/* Sección de Identificación de Candidatos */}
+          <fieldset>
+            <legend className="text-lg font-semibold mb-1 text-gray-700">Identificación de Candidatos</legend>
+            <p className="text-xs text-secondary-light mb-3">Decide cuándo dos filas son la misma persona. Se aplica a los duplicados, el informe y las exportaciones.</p>
+            <div className="space-y-2">
+              {IDENTITY_MODES.map(({ value, label }) => (
+                <div key={value} className="flex items-center">
+                  <input
+                    id={`identity-mode-${value}`}
+                    type="radio"
+                    name="identity-mode"
+                    checked={identityRule.mode === value}
+                    onChange={() => setIdentityRule(prev => ({ ...prev, mode: value }))}
+                    className="h-4 w-4 border-gray-300 text-primary focus:ring-primary"
+                  />
+                  <label htmlFor={`identity-mode-${value}`} className="ml-3 block text-sm font-medium text-gray-700">
+                    {label}
+                  </label>
+                </div>
+              ))}
+            </div>
+            <div className="mt-4 flex items-center">
+              <input
+                id="identity-fuzzy"
+                type="checkbox"
+                checked={identityRule.fuzzy ?? false}
+                onChange={(e) => setIdentityRule(prev => ({ ...prev, fuzzy: e.target.checked }))}
+                className="h-5 w-5 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              <label htmlFor="identity-fuzzy" className="ml-3 block text-sm font-medium text-gray-700">
+                Detectar posibles duplicados por nombres parecidos
+              </label>
+            </div>
+            {identityRule.fuzzy && (
+              <div className="mt-2 pl-8">
+                <label htmlFor="identity-fuzzy-threshold" className="block text-xs text-gray-600 mb-1">
+                  Confianza mínima: {Math.round((identityRule.fuzzyThreshold ?? 0.85) * 100)}%
+                </label>
+                <input
+                  id="identity-fuzzy-threshold"
+                  type="range"
+                  min={70}
+                  max={99}
+                  value={Math.round((identityRule.fuzzyThreshold ?? 0.85) * 100)}
+                  onChange={(e) => setIdentityRule(prev => ({ ...prev, fuzzyThreshold: Number(e.target.value) / 100 }))}
+                  className="w-full accent-primary"
+                />
+              </div>
+            )}
+            {identityRule.mode === 'columns' && (
+              <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 max-h-40 overflow-y-auto p-2 border border-gray-200 rounded-lg">
+                {headers.map(header => (
+                  <div key={header} className="flex items-center min-w-0">
+                    <input
+                      id={`identity-column-${header}`}
+                      type="checkbox"
+                      checked={identityRule.columns.includes(header)}
+                      onChange={() => handleIdentityColumnToggle(header)}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    <label htmlFor={`identity-column-${header}`} className="ml-2 block text-sm text-gray-700 truncate" title={header}>
+                      {header}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </fieldset>
         </div>
 
         <div className="mt-8 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 sm:space-x-3 border-t border-gray-200 pt-6">
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { ElectoralCalendar } from '../services/electoralCalendar';
+import { formatCalendarDate } from '../services/electoralCalendar';
+
+interface ElectoralTimelineProps {
+  calendar: ElectoralCalendar;
+}
+
+// Calendario electoral con los avisos de fechas imposibles o ya pasadas.
+export const ElectoralTimeline: React.FC<ElectoralTimelineProps> = ({ calendar }) => (
+  <div className="space-y-3">
+    {calendar.warnings.length > 0 && (
+      <ul className="text-sm text-red-700 bg-red-50 p-2 rounded-lg space-y-0.5">
+        {calendar.warnings.map(warning => <li key={warning}>{warning}</li>)}
+      </ul>
+    )}
+    {calendar.milestones.length > 0 && (
+      <ol className="border-l-2 border-primary/40 ml-2 space-y-2">
+        {calendar.milestones.map(milestone => (
+          <li key={milestone.id} className={`relative pl-4 text-sm ${milestone.isPast ? 'opacity-60' : ''}`}>
+            <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-primary" aria-hidden="true" />
+            <p className="font-medium text-gray-800">
+              <span className="font-mono text-gray-600 mr-2">
+                {formatCalendarDate(milestone.date)}
+                {milestone.endDate && ` – ${formatCalendarDate(milestone.endDate)}`}
+              </span>
+              {milestone.label}
+              {milestone.isPast && (
+                <span className="ml-2 inline-block px-2 py-0.5 rounded-full bg-gray-200 text-gray-600 text-xs font-semibold">Pasado</span>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">{milestone.description}</p>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
@@ -3,10 +3,10 @@ import React, { useState, useCallback, useRef } from 'react';
 import { UploadIcon } from './Icon';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -25,14 +25,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      onFileSelect(e.dataTransfer.files[0]);
+      onFilesSelect(Array.from(e.dataTransfer.files));
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileSelect(e.target.files[0]);
+      onFilesSelect(Array.from(e.target.files));
     }
+    e.target.value = ''; // Allow selecting the same files again later
   };
   
   return (
@@ -50,16 +51,17 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
         <div className="text-center">
             <UploadIcon className={`w-12 h-12 mx-auto mb-4 transition-colors ${isDragging ? 'text-primary' : 'text-gray-400'}`} />
             <p className="text-xl font-semibold text-gray-700 mb-2">
-              Arrastra y suelta un archivo aquí
+              Arrastra y suelta uno o varios archivos aquí
             </p>
             <p className="text-secondary-light mb-4">o haz clic para seleccionar</p>
-            <p className="text-sm text-gray-400">Soporta Excel, CSV y JSON</p>
+            <p className="text-sm text-gray-400">Soporta Excel, CSV y JSON. Podrás elegir qué hojas importar.</p>
         </div>
       </label>
       <input
         id="file-upload"
         ref={inputRef}
         type="file"
+        multiple
         className="hidden"
         onChange={handleChange}
         accept=".csv, .json, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { AuditAction, AuditEntry } from '../services/db';
+import { listAuditEntries } from '../services/db';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string | null;
+  user: string;
+  onUserChange: (name: string) => void;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  marcar: 'Cambio',
+  deshacer: 'Deshacer',
+  rehacer: 'Rehacer',
+};
+
+const markLabel = (value: boolean) => (value ? 'Marcado' : 'Sin marcar');
+
+export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, projectId, user, onUserChange }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [userName, setUserName] = useState(user);
+  const [personFilter, setPersonFilter] = useState('');
+  const [unionFilter, setUnionFilter] = useState('');
+  const [userFilter, setUserFilter] = useState('');
+
+  // El historial se vuelve a leer cada vez que se abre, para incluir los últimos cambios
+  useEffect(() => {
+    if (!isOpen || !projectId) return;
+    setUserName(user);
+    setIsLoading(true);
+    setLoadError(null);
+    listAuditEntries(projectId)
+      .then(setEntries)
+      .catch(() => setLoadError('No se pudo cargar el historial de cambios.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, projectId, user]);
+
+  const unionOptions = useMemo(() => Array.from(new Set(entries.map(e => e.union))).sort(), [entries]);
+  const userOptions = useMemo(() => Array.from(new Set(entries.map(e => e.user))).sort(), [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const person = personFilter.trim().toLowerCase();
+    return entries.filter(entry =>
+      (!person || entry.person.toLowerCase().includes(person)) &&
+      (!unionFilter || entry.union === unionFilter) &&
+      (!userFilter || entry.user === userFilter)
+    );
+  }, [entries, personFilter, unionFilter, userFilter]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // Button class for professional styling
+  const btnPrimary = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary disabled:opacity-50 disabled:cursor-not-allowed";
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm mt-1";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-modal-title"
+      >
+        <h2 id="history-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Historial de Cambios</h2>
+        <p className="text-secondary-light mb-4">
+          Cada marca que se pone o se quita queda registrada con su autor y la hora. Usa Ctrl+Z y Ctrl+Y en la tabla para deshacer y rehacer.
+        </p>
+
+        <form
+          className="flex items-end gap-3 mb-4"
+          onSubmit={(e) => { e.preventDefault(); onUserChange(userName); }}
+        >
+          <label className="flex-grow text-xs font-medium text-gray-600">
+            Tu nombre (firma los cambios que hagas en este navegador)
+            <input
+              type="text"
+              value={userName}
+              onChange={(e) => setUserName(e.target.value)}
+              placeholder="Sin identificar"
+              className={inputClass}
+            />
+          </label>
+          <button type="submit" disabled={userName.trim() === user} className={btnPrimary}>
+            Guardar
+          </button>
+        </form>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+          <label className="text-xs font-medium text-gray-600">
+            Persona
+            <input
+              type="text"
+              value={personFilter}
+              onChange={(e) => setPersonFilter(e.target.value)}
+              placeholder="Nombre o DNI"
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Sindicato
+            <select value={unionFilter} onChange={(e) => setUnionFilter(e.target.value)} className={inputClass}>
+              <option value="">Todos</option>
+              {unionOptions.map(union => <option key={union} value={union}>{union}</option>)}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Usuario
+            <select value={userFilter} onChange={(e) => setUserFilter(e.target.value)} className={inputClass}>
+              <option value="">Todos</option>
+              {userOptions.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-grow overflow-y-auto border-t border-gray-200 -mx-6 px-6">
+          {isLoading ? (
+            <p className="py-4 text-sm text-gray-500">Cargando historial...</p>
+          ) : loadError ? (
+            <p className="mt-4 text-sm text-red-600 bg-red-100 p-2 rounded-lg">{loadError}</p>
+          ) : filteredEntries.length === 0 ? (
+            <p className="py-4 text-sm text-gray-500">
+              {entries.length === 0 ? 'Todavía no hay cambios registrados en este proyecto.' : 'Ningún cambio coincide con los filtros.'}
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                  <th className="py-2 pr-3">Fecha</th>
+                  <th className="py-2 pr-3">Usuario</th>
+                  <th className="py-2 pr-3">Persona</th>
+                  <th className="py-2 pr-3">Sindicato</th>
+                  <th className="py-2 pr-3">Cambio</th>
+                  <th className="py-2">Acción</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filteredEntries.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="py-2 pr-3 whitespace-nowrap font-mono text-xs text-gray-600">{new Date(entry.timestamp).toLocaleString('es-ES')}</td>
+                    <td className="py-2 pr-3 text-gray-700">{entry.user}</td>
+                    <td className="py-2 pr-3 text-gray-800">{entry.person}</td>
+                    <td className="py-2 pr-3 text-gray-700">{entry.union}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap text-gray-700">
+                      {markLabel(entry.previousValue)} → <span className={entry.newValue ? 'font-semibold text-primary' : 'font-semibold text-red-700'}>{markLabel(entry.newValue)}</span>
+                    </td>
+                    <td className="py-2 text-xs text-gray-500">{ACTION_LABELS[entry.action]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-between items-center border-t border-gray-200 pt-4">
+          <p className="text-xs text-gray-500">{filteredEntries.length} de {entries.length} cambios</p>
+          <button onClick={onClose} className={btnPrimary}>
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
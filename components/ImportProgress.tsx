@@ -0,0 +1,39 @@
+import React from 'react';
+import type { ParseProgress } from '../services/backgroundParser';
+
+interface ImportProgressProps {
+  progress: ParseProgress | null;
+  onCancel: () => void;
+}
+
+// Barra de progreso mientras se leen los archivos del censo, con la opción de cancelar.
+export const ImportProgress: React.FC<ImportProgressProps> = ({ progress, onCancel }) => {
+  const percent = Math.min(100, progress?.percent ?? 0);
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-4 w-full max-w-md mx-auto">
+      <span className="text-gray-600 text-lg text-center truncate max-w-full">
+        {progress ? `Leyendo ${progress.fileName}...` : 'Abriendo el archivo...'}
+      </span>
+      <div
+        className="w-full h-3 bg-gray-200 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuenow={percent}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-label="Progreso de la lectura"
+      >
+        <div className="h-full bg-primary transition-all duration-200 ease-out" style={{ width: `${percent}%` }} />
+      </div>
+      <span className="text-sm text-gray-500">
+        {percent}% · {(progress?.rowsRead ?? 0).toLocaleString('es-ES')} filas leídas
+      </span>
+      <button
+        onClick={onCancel}
+        className="font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm text-sm bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-primary"
+      >
+        Cancelar
+      </button>
+    </div>
+  );
+};
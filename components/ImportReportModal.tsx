@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import Papa from 'papaparse';
+import type { ImportIssue, ImportReport } from '../types';
+import { IMPORT_ISSUE_LABELS, countIssuesByKind, getImportReportRows } from '../services/importReport';
+import { CSVIcon } from './Icon';
+
+interface ImportReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: ImportReport | null;
+}
+
+type KindFilter = ImportIssue['kind'] | 'all';
+
+// Incidencias que se pintan a la vez; el CSV descargado las incluye todas.
+const MAX_VISIBLE_ISSUES = 500;
+
+const KIND_STYLES: Record<ImportIssue['kind'], string> = {
+  skipped: 'bg-gray-50 border-gray-200 text-gray-700',
+  malformed: 'bg-red-50 border-red-200 text-red-700',
+  coerced: 'bg-yellow-50 border-yellow-200 text-yellow-700',
+};
+
+// Informe de la última importación del censo: filas omitidas, valores defectuosos y conversiones.
+export const ImportReportModal: React.FC<ImportReportModalProps> = ({ isOpen, onClose, report }) => {
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+
+  useEffect(() => {
+    if (isOpen) {
+      setKindFilter('all');
+    }
+  }, [isOpen]);
+
+  if (!isOpen || !report) {
+    return null;
+  }
+
+  const counts = countIssuesByKind(report.issues);
+  const filteredIssues = kindFilter === 'all' ? report.issues : report.issues.filter(issue => issue.kind === kindFilter);
+  const showSource = report.issues.some(issue => issue.source);
+
+  const handleDownload = () => {
+    const csvOutput = Papa.unparse(getImportReportRows(report), { header: true });
+    const blob = new Blob([csvOutput], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.setAttribute('download', `informe_importacion_${report.fileName.split('.')[0]}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const btnBase = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm flex items-center justify-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none";
+  const btnPrimary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
+  const btnSecondary = `${btnBase} bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 focus-visible:ring-primary`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-report-modal-title"
+      >
+        <h2 id="import-report-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Informe de Importación</h2>
+        <p className="text-secondary-light mb-4">
+          <span className="font-semibold">{report.fileName}</span>, importado el {new Date(report.importedAt).toLocaleString('es-ES')}.
+          Se cargaron <span className="font-semibold">{report.rowCount}</span> filas.
+        </p>
+
+        <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+          {(Object.keys(IMPORT_ISSUE_LABELS) as ImportIssue['kind'][]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(prev => prev === kind ? 'all' : kind)}
+              className={`p-3 rounded-lg border ${KIND_STYLES[kind]} ${kindFilter === kind ? 'ring-2 ring-primary' : ''}`}
+              aria-pressed={kindFilter === kind}
+            >
+              <p className="text-2xl font-bold">{counts[kind]}</p>
+              <p className="text-xs text-gray-600">{IMPORT_ISSUE_LABELS[kind]}{counts[kind] === 1 ? '' : 's'}</p>
+            </button>
+          ))}
+        </div>
+
+        {report.notes.length > 0 && (
+          <ul className="mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 p-3 rounded-lg list-disc list-inside space-y-0.5">
+            {report.notes.map(note => <li key={note}>{note}</li>)}
+          </ul>
+        )}
+
+        <div className="flex-grow overflow-y-auto border-t border-gray-200 -mx-6 px-6">
+          {filteredIssues.length > 0 ? (
+            <table className="min-w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                  <th className="py-2 pr-3">Tipo</th>
+                  {showSource && <th className="py-2 pr-3">Origen</th>}
+                  <th className="py-2 pr-3">Fila</th>
+                  <th className="py-2 pr-3">Columna</th>
+                  <th className="py-2 pr-3">Valor</th>
+                  <th className="py-2">Motivo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filteredIssues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                  <tr key={index}>
+                    <td className="py-2 pr-3 whitespace-nowrap text-xs text-gray-500">{IMPORT_ISSUE_LABELS[issue.kind]}</td>
+                    {showSource && <td className="py-2 pr-3 text-gray-700">{issue.source ?? ''}</td>}
+                    <td className="py-2 pr-3 font-mono text-xs text-gray-600">{issue.line ?? ''}</td>
+                    <td className="py-2 pr-3 text-gray-700">{issue.column ?? ''}</td>
+                    <td className="py-2 pr-3 text-gray-800 max-w-xs truncate" title={issue.value}>
+                      {issue.value ?? ''}
+                      {issue.newValue !== undefined && <> → <span className="font-semibold">{issue.newValue}</span></>}
+                    </td>
+                    <td className="py-2 text-gray-600">{issue.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="text-center text-gray-500 py-10">
+              <p>{report.issues.length === 0 ? 'Todas las filas se importaron sin incidencias.' : 'No hay incidencias de este tipo.'}</p>
+            </div>
+          )}
+          {filteredIssues.length > MAX_VISIBLE_ISSUES && (
+            <p className="py-3 text-center text-xs text-gray-500">
+              Se muestran las primeras {MAX_VISIBLE_ISSUES} de {filteredIssues.length} incidencias. Descarga el informe para verlas todas.
+            </p>
+          )}
+        </div>
+
+        <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 flex-shrink-0 border-t border-gray-200 pt-6">
+          <button onClick={handleDownload} className={btnSecondary} disabled={report.issues.length === 0}>
+            <CSVIcon className="w-5 h-5" />
+            Descargar informe (CSV)
+          </button>
+          <button onClick={onClose} className={btnPrimary}>Cerrar</button>
+        </div>
+      </div>
+    </div>
+  );
+};
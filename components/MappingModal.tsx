@@ -1,50 +1,108 @@
-
 import React, { useState, useEffect } from 'react';
-// FIX: Import MappingSuggestion from the central types file.
-import type { MappingSuggestion } from '../types';
+import type { MappingSuggestion, MappingProfile, TableRow } from '../types';
+import { IDEAL_FIELD_KEYS, IGNORE_FIELD, findConflictingMappings, getIdealFieldLabel, getProfileMappings } from '../services/columnMapping';
 import { SimpleSpinnerIcon } from './Icon';
 
 interface MappingModalProps {
   isOpen: boolean;
-  onConfirm: (finalMappings: MappingSuggestion[]) => void;
+  onConfirm: (finalMappings: MappingSuggestion[], profileName: string | null) => void;
   onSkip: () => void;
   initialSuggestions: MappingSuggestion[];
+  sampleRows: TableRow[];
+  defaultProfileName: string;
+  profiles: MappingProfile[];
+  onDeleteProfile: (id: string) => void;
 }
 
-const IDEAL_HEADERS = ['nombre', 'apellidos', 'dni', 'centro', 'fecha_antiguedad', 'ignorar'];
+const IDEAL_HEADERS = [...IDEAL_FIELD_KEYS, IGNORE_FIELD];
+
+const describeOption = (option: string): string => {
+  if (option === IGNORE_FIELD) return 'ignorar (no importar la columna)';
+  const label = getIdealFieldLabel(option);
+  return label ? `${option} — ${label}` : `${option} (sin cambios)`;
+};
 
-export const MappingModal: React.FC<MappingModalProps> = ({ isOpen, onConfirm, onSkip, initialSuggestions }) => {
+export const MappingModal: React.FC<MappingModalProps> = ({
+  isOpen, onConfirm, onSkip, initialSuggestions, sampleRows, defaultProfileName, profiles, onDeleteProfile,
+}) => {
   const [mappings, setMappings] = useState<MappingSuggestion[]>([]);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+  const [selectedProfileId, setSelectedProfileId] = useState('');
 
   useEffect(() => {
     if (isOpen) {
       setMappings(initialSuggestions);
+      setSaveProfile(true);
+      setProfileName(defaultProfileName);
+      setSelectedProfileId('');
     }
-  }, [isOpen, initialSuggestions]);
+  }, [isOpen, initialSuggestions, defaultProfileName]);
 
   if (!isOpen) {
     return null;
   }
-  
+
   const handleMappingChange = (originalHeader: string, newSuggested: string) => {
-    setMappings(currentMappings => 
-      currentMappings.map(m => 
-        m.original === originalHeader ? { ...m, suggested: newSuggested } : m
+    setMappings(currentMappings =>
+      currentMappings.map(m =>
+        m.original === originalHeader ? { original: m.original, suggested: newSuggested } : m
       )
     );
   };
 
+  const handleApplyProfile = (id: string) => {
+    setSelectedProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setMappings(getProfileMappings(profile, initialSuggestions.map(m => m.original)));
+      setProfileName(profile.name);
+    }
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = profiles.find(p => p.id === selectedProfileId);
+    if (profile && window.confirm(`¿Borrar el perfil «${profile.name}»?`)) {
+      onDeleteProfile(profile.id);
+      setSelectedProfileId('');
+    }
+  };
+
+  const getSample = (header: string): string =>
+    sampleRows.map(row => String(row[header] ?? '').trim()).filter(Boolean).slice(0, 3).join(' · ');
+
+  const conflicts = findConflictingMappings(mappings);
+  const canConfirm = mappings.length > 0 && conflicts.length === 0 && (!saveProfile || profileName.trim() !== '');
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
-      <div 
-        className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col"
+      <div
+        className="bg-white rounded-lg shadow-xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col"
         onClick={(e) => e.stopPropagation()}
       >
-        <h2 className="text-xl font-bold mb-2 text-gray-800">Mapeo de Columnas Asistido por IA</h2>
-        <p className="text-gray-600 mb-6 text-sm">
-          Hemos analizado las columnas de tu archivo. Por favor, revisa y confirma las asignaciones para asegurar que los datos se procesen correctamente.
+        <h2 className="text-xl font-bold mb-2 text-gray-800">Mapeo de Columnas</h2>
+        <p className="text-gray-600 mb-4 text-sm">
+          Hemos analizado los nombres y los valores de las columnas de tu archivo. Por favor, revisa y confirma las asignaciones para asegurar que los datos se procesen correctamente.
         </p>
 
+        {profiles.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+            <label htmlFor="mapping-profile" className="font-medium text-gray-700">Aplicar un perfil guardado:</label>
+            <select
+              id="mapping-profile"
+              value={selectedProfileId}
+              onChange={(e) => handleApplyProfile(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+            >
+              <option value="">Elegir…</option>
+              {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+            </select>
+            {selectedProfileId && (
+              <button onClick={handleDeleteProfile} className="text-xs font-semibold text-red-600 hover:underline">Borrar perfil</button>
+            )}
+          </div>
+        )}
+
         <div className="flex-grow overflow-y-auto border-t border-b border-gray-200 py-4 -mx-6 px-6">
           <div className="grid grid-cols-2 gap-x-4 gap-y-2 font-semibold text-sm text-gray-600 px-4 pb-2 border-b">
             <div>Columna Original (de tu archivo)</div>
@@ -52,22 +110,30 @@ export const MappingModal: React.FC<MappingModalProps> = ({ isOpen, onConfirm, o
           </div>
           <div className="space-y-3 pt-3">
              {mappings.length > 0 ? (
-                mappings.map(({ original, suggested }) => (
+                mappings.map(({ original, suggested, confidence }) => (
                   <div key={original} className="grid grid-cols-2 gap-x-4 items-center px-4 py-2 rounded-md hover:bg-gray-50">
-                    <span className="font-medium text-gray-900 truncate" title={original}>{original}</span>
-                    <select
-                      value={suggested}
-                      onChange={(e) => handleMappingChange(original, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
-                      aria-label={`Mapeo para la columna ${original}`}
-                    >
-                      {/* Muestra las cabeceras ideales más el valor original si no está en la lista */}
-                      {[...new Set([...IDEAL_HEADERS, suggested])].sort().map(option => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
+                    <div className="min-w-0">
+                      <span className="block font-medium text-gray-900 truncate" title={original}>{original}</span>
+                      <span className="block text-xs text-gray-500 truncate" title={getSample(original)}>{getSample(original) || 'Sin valores'}</span>
+                    </div>
+                    <div>
+                      <select
+                        value={suggested}
+                        onChange={(e) => handleMappingChange(original, e.target.value)}
+                        className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm ${conflicts.includes(suggested) ? 'border-red-400' : 'border-gray-300'}`}
+                        aria-label={`Mapeo para la columna ${original}`}
+                      >
+                        {/* Muestra las cabeceras ideales más el valor original si no está en la lista */}
+                        {[...new Set([...IDEAL_HEADERS, original, suggested])].map(option => (
+                          <option key={option} value={option}>
+                            {describeOption(option)}
+                          </option>
+                        ))}
+                      </select>
+                      {confidence !== undefined && (
+                        <span className="text-xs text-gray-500">Sugerido con una confianza del {Math.round(confidence * 100)} %</span>
+                      )}
+                    </div>
                   </div>
                 ))
              ) : (
@@ -79,6 +145,34 @@ export const MappingModal: React.FC<MappingModalProps> = ({ isOpen, onConfirm, o
           </div>
         </div>
 
+        {conflicts.length > 0 && (
+          <p className="mt-3 text-sm text-red-600 bg-red-100 p-2 rounded-lg">
+            Hay varias columnas asignadas a {conflicts.join(', ')}. Cada campo solo puede venir de una columna.
+          </p>
+        )}
+
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Guardar como perfil para los archivos con estas mismas columnas
+          </label>
+          {saveProfile && (
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Nombre del perfil"
+              className="flex-grow min-w-[12rem] px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+              aria-label="Nombre del perfil"
+            />
+          )}
+        </div>
+
         <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 sm:space-x-3 flex-shrink-0">
           <button
             onClick={onSkip}
@@ -87,9 +181,9 @@ export const MappingModal: React.FC<MappingModalProps> = ({ isOpen, onConfirm, o
             Usar Cabeceras Originales
           </button>
           <button
-            onClick={() => onConfirm(mappings)}
-            className="bg-primary hover:bg-primary-dark text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300"
-            disabled={mappings.length === 0}
+            onClick={() => onConfirm(mappings, saveProfile ? profileName.trim() : null)}
+            className="bg-primary hover:bg-primary-dark text-white font-bold py-3 px-4 rounded-lg transition-colors duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={!canConfirm}
           >
             Confirmar y Continuar
           </button>
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { PossibleDuplicate, PairDecision } from '../types';
+
+interface PossibleDuplicatesListProps {
+  possibleDuplicates: PossibleDuplicate[];
+  // Si se omite, la lista es de solo lectura (por ejemplo, en el informe).
+  onDecision?: (pairKey: string, decision: PairDecision | null) => void;
+}
+
+const DECISION_BADGES: Record<PairDecision, { label: string; className: string }> = {
+  confirmed: { label: 'Confirmado', className: 'bg-red-100 text-red-700' },
+  dismissed: { label: 'Descartado', className: 'bg-gray-200 text-gray-600' },
+};
+
+// Color de la confianza: cuanto más alta, más probable es que sea la misma persona.
+const getScoreColor = (score: number): string => {
+  if (score >= 0.95) return 'text-red-700';
+  if (score >= 0.9) return 'text-orange-600';
+  return 'text-yellow-700';
+};
+
+export const PossibleDuplicatesList: React.FC<PossibleDuplicatesListProps> = ({ possibleDuplicates, onDecision }) => {
+  if (possibleDuplicates.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 px-6">No se han encontrado nombres parecidos entre los candidatos marcados.</p>
+    );
+  }
+
+  const linkBtn = "text-xs font-semibold hover:underline";
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Confianza</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Candidato</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Posible duplicado</th>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {possibleDuplicates.map((pair, index) => (
+            <tr key={pair.pairKey} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50/70'} ${pair.decision === 'dismissed' ? 'opacity-60' : ''}`}>
+              <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold ${getScoreColor(pair.score)}`}>
+                {Math.round(pair.score * 100)}%
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                <p className="font-medium">{pair.first.identifier}</p>
+                <p className="text-xs text-gray-500">{pair.first.unions.join(', ')}</p>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                <p className="font-medium">{pair.second.identifier}</p>
+                <p className="text-xs text-gray-500">{pair.second.unions.join(', ')}</p>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                <div className="flex items-center gap-3">
+                  {pair.decision ? (
+                    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${DECISION_BADGES[pair.decision].className}`}>
+                      {DECISION_BADGES[pair.decision].label}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-gray-500">Pendiente</span>
+                  )}
+                  {onDecision && (pair.decision ? (
+                    <button onClick={() => onDecision(pair.pairKey, null)} className={`${linkBtn} text-primary`}>Deshacer</button>
+                  ) : (
+                    <>
+                      <button onClick={() => onDecision(pair.pairKey, 'confirmed')} className={`${linkBtn} text-red-600`}>Confirmar</button>
+                      <button onClick={() => onDecision(pair.pairKey, 'dismissed')} className={`${linkBtn} text-gray-600`}>Descartar</button>
+                    </>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import type { ProjectSummary } from '../services/db';
+
+interface ProjectPickerProps {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  newProjectName: string;
+  onNewProjectNameChange: (name: string) => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Formatear la fecha de última modificación de un proyecto
+const formatUpdatedAt = (isoDate: string) => {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+export const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  projects,
+  activeProjectId,
+  newProjectName,
+  onNewProjectNameChange,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setEditingName(project.name);
+  };
+
+  const confirmRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (window.confirm(`¿Eliminar el proyecto "${project.name}"? Se perderán su censo y todas sus marcas.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const linkBtn = "text-xs font-semibold text-primary hover:text-primary-dark hover:underline";
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mb-8 text-left">
+      {projects.length > 0 && (
+        <div className="mb-6 bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <h2 className="px-4 py-3 text-sm font-bold text-gray-700 uppercase tracking-wider bg-gray-50 border-b border-gray-200">
+            Proyectos guardados
+          </h2>
+          <ul className="divide-y divide-gray-200 max-h-72 overflow-y-auto">
+            {projects.map(project => (
+              <li key={project.id} className={`px-4 py-3 flex items-center gap-4 ${project.id === activeProjectId ? 'bg-green-50' : 'hover:bg-gray-50'}`}>
+                <div className="flex-grow min-w-0">
+                  {editingId === project.id ? (
+                    <input
+                      type="text"
+                      value={editingName}
+                      autoFocus
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={confirmRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') confirmRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                      aria-label="Nuevo nombre del proyecto"
+                    />
+                  ) : (
+                    <button onClick={() => onOpen(project.id)} className="text-left w-full">
+                      <p className="font-semibold text-gray-800 truncate">{project.name}</p>
+                      <p className="text-xs text-secondary-light truncate">
+                        {project.fileName || 'Sin archivo'} · {project.rowCount} filas · {formatUpdatedAt(project.updatedAt)}
+                      </p>
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <button onClick={() => onOpen(project.id)} className={linkBtn}>Abrir</button>
+                  <button onClick={() => startRename(project)} className={linkBtn}>Renombrar</button>
+                  <button onClick={() => onDuplicate(project.id)} className={linkBtn}>Duplicar</button>
+                  <button onClick={() => handleDelete(project)} className="text-xs font-semibold text-red-600 hover:text-red-700 hover:underline">Eliminar</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <label htmlFor="new-project-name" className="block text-sm font-medium text-gray-700 mb-1">
+        Nombre del nuevo proyecto
+      </label>
+      <input
+        id="new-project-name"
+        type="text"
+        value={newProjectName}
+        onChange={(e) => onNewProjectNameChange(e.target.value)}
+        placeholder="Ej.: Centro La Laguna (si se deja vacío se usa el nombre del archivo)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React from 'react';
+import type { ReconciliationEntry, ReconciliationResult } from '../services/censusReconciliation';
+
+interface ReplaceCensusModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  result: ReconciliationResult | null;
+  // Correcciones a mano que se han perdido porque su fila ya no está en el censo
+  droppedCorrections: number;
+}
+
+const EntryTable: React.FC<{ entries: ReconciliationEntry[]; showUnions: boolean }> = ({ entries, showUnions }) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full">
+      <thead className="bg-gray-50">
+        <tr>
+          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Persona
+          </th>
+          {showUnions && (
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Marcas perdidas
+            </th>
+          )}
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {entries.map((entry, index) => (
+          <tr key={`${entry.label}-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50/70'}>
+            <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{entry.label}</td>
+            {showUnions && (
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{entry.unions.join(', ') || '—'}</td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const ReplaceCensusModal: React.FC<ReplaceCensusModalProps> = ({ isOpen, onClose, fileName, result, droppedCorrections }) => {
+  if (!isOpen || !result) {
+    return null;
+  }
+
+  // Button class for professional styling
+  const btnPrimary = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-3xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="replace-census-modal-title"
+      >
+        <h2 id="replace-census-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Censo Reemplazado</h2>
+        <p className="text-secondary-light mb-6">
+          Se ha cargado <span className="font-semibold">{fileName}</span> conciliando a las personas por {result.keyDescription}.
+        </p>
+
+        {droppedCorrections > 0 && (
+          <p className="mb-6 text-sm text-red-800 bg-red-50 border border-red-200 p-3 rounded-lg">
+            Se {droppedCorrections === 1 ? 'ha perdido 1 corrección' : `han perdido ${droppedCorrections} correcciones`} hechas a mano en filas que ya no están en el censo.
+            El resto de correcciones se ha trasladado a las filas del nuevo archivo.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6 text-center">
+          <div className="p-3 rounded-lg bg-green-50 border border-green-200">
+            <p className="text-2xl font-bold text-green-700">{result.matchedMarks}</p>
+            <p className="text-xs text-gray-600">Marcas conservadas</p>
+          </div>
+          <div className="p-3 rounded-lg bg-red-50 border border-red-200">
+            <p className="text-2xl font-bold text-red-700">{result.unmatchedMarks.length}</p>
+            <p className="text-xs text-gray-600">Personas con marcas sin conciliar</p>
+          </div>
+          <div className="p-3 rounded-lg bg-yellow-50 border border-yellow-200">
+            <p className="text-2xl font-bold text-yellow-700">{result.removedRows.length}</p>
+            <p className="text-xs text-gray-600">Filas desaparecidas</p>
+          </div>
+          <div className="p-3 rounded-lg bg-gray-50 border border-gray-200">
+            <p className="text-2xl font-bold text-gray-700">{result.addedRows}</p>
+            <p className="text-xs text-gray-600">Filas nuevas</p>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto border-t border-gray-200 pt-4 -mx-6 px-6 space-y-8">
+          {result.unmatchedMarks.length > 0 && (
+            <div>
+              <h3 className="text-xl font-semibold text-red-700 mb-3 px-6">Marcas que no se pudieron conciliar</h3>
+              <EntryTable entries={result.unmatchedMarks} showUnions />
+            </div>
+          )}
+          {result.changedIds.length > 0 && (
+            <div>
+              <h3 className="text-xl font-semibold text-yellow-700 mb-3 px-6">Personas conciliadas por nombre con otro DNI/NIF</h3>
+              <div className="overflow-x-auto">
+                <table className="min-w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Persona</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">DNI anterior</th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">DNI nuevo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {result.changedIds.map((entry, index) => (
+                      <tr key={`${entry.label}-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50/70'}>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{entry.label}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{entry.previousId || '—'}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{entry.newId || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+          {result.removedRows.length > 0 ? (
+            <div>
+              <h3 className="text-xl font-semibold text-primary mb-3 px-6">Filas que ya no están en el censo</h3>
+              <EntryTable entries={result.removedRows} showUnions={false} />
+            </div>
+          ) : (
+            <div className="text-center text-gray-500 py-10">
+              <p>Todas las personas del censo anterior siguen en el nuevo archivo.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end flex-shrink-0 border-t border-gray-200 pt-6">
+          <button
+            onClick={onClose}
+            className={btnPrimary}
+          >
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
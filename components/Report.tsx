@@ -1,6 +1,19 @@
 import React, { useMemo } from 'react';
-import type { TableRow } from '../types';
-import { PDFIcon, WordIcon } from './Icon';
+import type { TableRow, IdentityRule, CandidateDuplicate, CollegeMapping, UnionDefinition } from '../types';
+import type { EligibilityIssue } from '../services/eligibility';
+import type { WorkcenterSeats } from '../services/seatCalculation';
+import { BODY_LABELS } from '../services/seatCalculation';
+import { COLLEGE_LABELS, getCollege, getCollegeLabel } from '../services/electoralColleges';
+import type { CandidateList } from '../services/candidateLists';
+import { SeatSummaryTable } from './SeatSummaryTable';
+import { ElectoralTimeline } from './ElectoralTimeline';
+import { buildElectoralCalendar, buildICS, formatCalendarDate } from '../services/electoralCalendar';
+import type { DuplicatesReport } from '../services/candidateIdentity';
+import { describeIdentityRule, getCandidateLabel } from '../services/candidateIdentity';
+import { PossibleDuplicatesList } from './PossibleDuplicatesList';
+import { UNION_KIND_LABELS, getUnionDefinition, getUnionDisplayName } from '../services/unionRegistry';
+import { UnionLabel } from './UnionLabel';
+import { PDFIcon, WordIcon, ExportIcon } from './Icon';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -10,44 +23,16 @@ interface ReportProps {
   checkedState: Record<number, Record<string, boolean>>;
   allUnions: string[];
   electionDates: { submissionDate: string; votingDate: string };
+  duplicatesReport: DuplicatesReport;
+  identityRule: IdentityRule;
+  eligibilityIssues: Map<number, EligibilityIssue>;
+  workcenterSeats: WorkcenterSeats[];
+  collegeMapping?: CollegeMapping;
+  candidateLists: CandidateList[];
+  unionRegistry: UnionDefinition[];
   onBack: () => void;
 }
 
-// Helper to find columns with names/identifiers and create an identifier ORDENABLE
-const getCandidateIdentifier = (row: TableRow): string => {
-    const keys = Object.keys(row);
-    // Busca columnas de apellidos y nombre, priorizando apellidos para la ordenación
-    const surnameKeys = keys.filter(k => /apellidos/i.test(k)).sort();
-    const nameKeys = keys.filter(k => /nombre/i.test(k) && !/apellidos/i.test(k)).sort();
-    
-    let fullNameParts: string[] = [];
-
-    if (surnameKeys.length > 0) {
-        fullNameParts.push(...surnameKeys.map(k => String(row[k] ?? '')));
-    }
-    if (nameKeys.length > 0) {
-        fullNameParts.push(...nameKeys.map(k => String(row[k] ?? '')));
-    }
-    
-    if (fullNameParts.length > 0) {
-        return fullNameParts.join(' ').trim();
-    }
-
-    // Fallback: si no se encuentran columnas específicas, une todas las que parezcan de nombre
-    const allNameKeys = keys.filter(k => /nombre|apellidos|name|candidato/i.test(k)).sort();
-    if (allNameKeys.length > 0) {
-        return allNameKeys.map(k => String(row[k] ?? '')).join(' ').trim();
-    }
-
-    const dniKey = keys.find(k => /dni|nif|id/i.test(k));
-    if (dniKey) {
-        return String(row[dniKey]);
-    }
-    
-    // Fallback final a la primera columna
-    return String(Object.values(row)[0] ?? 'Candidato Desconocido');
-}
-
 // Formatear fecha para mostrarla amigablemente
 const formatDisplayDate = (dateString: string) => {
     if (!dateString) return 'No especificada';
@@ -59,54 +44,77 @@ const formatDisplayDate = (dateString: string) => {
     }
 };
 
-export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, electionDates, onBack }) => {
-
-  const duplicatedCandidatesByUnion = useMemo(() => {
-    // 1. Map all candidates to the unions they are checked for.
-    const candidatesMap: Map<string, { unions: Set<string>, row: TableRow }> = new Map();
-    data.forEach((row, rowIndex) => {
-        const checkedUnionsForRow = allUnions.filter(union => checkedState[rowIndex]?.[union]);
-        if (checkedUnionsForRow.length > 0) {
-            const identifier = getCandidateIdentifier(row);
-            if (!candidatesMap.has(identifier)) {
-                candidatesMap.set(identifier, { unions: new Set(), row });
-            }
-            checkedUnionsForRow.forEach(union => candidatesMap.get(identifier)!.unions.add(union));
-        }
-    });
-
-    // 2. Filter down to only those candidates who are in more than one union.
-    const actualDuplicates = Array.from(candidatesMap.values())
-        .filter(candidate => candidate.unions.size > 1)
-        .map(candidate => ({
-            identifier: getCandidateIdentifier(candidate.row),
-            unions: Array.from(candidate.unions).sort(),
-            row: candidate.row
-        }));
-    
-    // 3. Group these duplicates by each union they are part of.
-    const groupedByUnion: Record<string, { identifier: string; otherUnions: string[], row: TableRow }[]> = {};
-
-    allUnions.forEach(union => {
-      const candidatesInThisUnion = actualDuplicates
-        .filter(dup => dup.unions.includes(union))
-        .map(dup => ({
-          identifier: dup.identifier,
-          otherUnions: dup.unions.filter(u => u !== union),
-          row: dup.row
-        }));
-
-      if (candidatesInThisUnion.length > 0) {
-          // Sort candidates alphabetically within this union's list
-          candidatesInThisUnion.sort((a, b) => a.identifier.localeCompare(b.identifier));
-          groupedByUnion[union] = candidatesInThisUnion;
-      }
-    });
+export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, electionDates, duplicatesReport, identityRule, eligibilityIssues, workcenterSeats, collegeMapping, candidateLists, unionRegistry, onBack }) => {
 
-    return groupedByUnion;
-  }, [data, checkedState, allUnions]);
-  
+  // "Sindicato: CCOO (Comisiones Obreras)" o "Agrupación de electores: ..." para los documentos
+  const describeUnion = (union: string) => {
+    const definition = getUnionDefinition(unionRegistry, union);
+    return `${UNION_KIND_LABELS[definition.kind]}: ${getUnionDisplayName(definition)}`;
+  };
+
+  const { groupedByUnion: duplicatedCandidatesByUnion, invalidIdCandidates, possibleDuplicates } = duplicatesReport;
+  // Los pares descartados por el usuario no se incluyen en el informe
+  const reportedPossibleDuplicates = possibleDuplicates.filter(pair => pair.decision !== 'dismissed');
   const hasDuplicates = Object.keys(duplicatedCandidatesByUnion).length > 0;
+
+  // Candidatos marcados que no cumplen los requisitos de edad o antigüedad en la fecha de votación
+  const ineligibleCandidates = useMemo(() =>
+    Array.from<EligibilityIssue>(eligibilityIssues.values())
+      .filter(issue => issue.role === 'candidato')
+      .map(issue => ({
+        identifier: getCandidateLabel(data[issue.rowIndex]),
+        unions: allUnions.filter(union => checkedState[issue.rowIndex]?.[union]),
+        reasons: issue.reasons,
+      }))
+      .sort((a, b) => a.identifier.localeCompare(b.identifier)),
+    [eligibilityIssues, data, allUnions, checkedState]
+  );
+
+  const calendar = useMemo(() => buildElectoralCalendar(electionDates), [electionDates]);
+
+  // Fechas de un hito, con el fin del plazo si dura varios días
+  const formatMilestoneDates = (milestone: { date: Date; endDate?: Date }) =>
+    milestone.endDate
+      ? `${formatCalendarDate(milestone.date)} – ${formatCalendarDate(milestone.endDate)}`
+      : formatCalendarDate(milestone.date);
+
+  // Marca los candidatos con identificador no válido en las exportaciones
+  const withIdWarning = (candidate: CandidateDuplicate) =>
+    candidate.invalidIdMessage ? `${candidate.identifier} (DNI no válido)` : candidate.identifier;
+
+  const hasColleges = Boolean(collegeMapping?.column);
+
+  // Listas ordenadas de cada sindicato en cada centro (y colegio), con sus titulares y suplentes
+  const reportedLists = candidateLists.map(list => ({
+    union: list.union,
+    unit: list.unit,
+    titulares: list.titulares.map(rowIndex => getCandidateLabel(data[rowIndex])),
+    suplentes: list.suplentes.map(rowIndex => getCandidateLabel(data[rowIndex])),
+    warning: list.isShort ? `${list.titulares.length} titulares para ${list.unit.seats} puestos` : '',
+  }));
+
+  // Candidatos marcados cuya categoría no tiene colegio asignado: no entran en ninguna lista de comité
+  const unassignedCollegeCandidates = useMemo(() => {
+    if (!hasColleges) return [];
+    return data
+      .map((row, rowIndex) => ({ row, rowIndex }))
+      .filter(({ row, rowIndex }) => allUnions.some(union => checkedState[rowIndex]?.[union]) && !getCollege(row, collegeMapping))
+      .map(({ row }) => getCandidateLabel(row));
+  }, [hasColleges, data, allUnions, checkedState, collegeMapping]);
+
+  // Filas del resumen de puestos con el desglose por colegio debajo de cada centro con comité
+  const seatRows = workcenterSeats.flatMap(center => [
+    [center.workcenter, String(center.staff), BODY_LABELS[center.body], String(center.seats),
+      ...allUnions.map(union => String(center.candidatesByUnion[union] ?? 0))],
+    ...(center.colleges ?? []).map(college => [
+      `   ${COLLEGE_LABELS[college.college]}`, String(college.staff), 'Colegio electoral', String(college.seats),
+      ...allUnions.map(union => String(college.candidatesByUnion[union] ?? 0))
+    ]),
+  ]);
+
+  // En las exportaciones, el colegio se añade al nombre del candidato duplicado
+  const withCollege = (candidate: CandidateDuplicate) =>
+    hasColleges ? `${withIdWarning(candidate)} [${getCollegeLabel(candidate.row, collegeMapping)}]` : withIdWarning(candidate);
   
   const handleDownloadPDF = () => {
     const doc = new jsPDF();
@@ -141,7 +149,58 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
     doc.text(`Presentación de candidaturas: ${formatDisplayDate(electionDates.submissionDate)}`, 22, startY);
     startY += 6;
     doc.text(`Fecha de votación: ${formatDisplayDate(electionDates.votingDate)}`, 22, startY);
+    startY += 6;
+    doc.text(`Identificación de candidatos: ${describeIdentityRule(identityRule)}`, 22, startY);
     startY += 12;
+
+    // Sección de calendario electoral
+    if (calendar.milestones.length > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Calendario Electoral', 20, startY);
+      startY += 8;
+
+      autoTable(doc, {
+        head: [["Fecha", "Hito", "Descripción"]],
+        body: calendar.milestones.map(milestone => [
+          formatMilestoneDates(milestone),
+          milestone.isPast ? `${milestone.label} (pasado)` : milestone.label,
+          milestone.description
+        ]),
+        startY: startY,
+        theme: 'grid',
+        headStyles: { fillColor: [93, 134, 108] }, // #5D866C
+      });
+      startY = (doc as any).lastAutoTable.finalY + 6;
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(185, 28, 28);
+      calendar.warnings.forEach(warning => {
+        const lines = doc.splitTextToSize(warning, pageWidth - 40);
+        doc.text(lines, 20, startY);
+        startY += lines.length * 5;
+      });
+      doc.setTextColor(40);
+      startY += 6;
+    }
+
+    // Sección de representantes a elegir
+    if (workcenterSeats.length > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Representantes a Elegir por Centro', 20, startY);
+      startY += 8;
+
+      autoTable(doc, {
+        head: [["Centro", "Plantilla", "Órgano", "Puestos", ...allUnions]],
+        body: seatRows,
+        startY: startY,
+        theme: 'grid',
+        headStyles: { fillColor: [93, 134, 108] }, // #5D866C
+      });
+      startY = (doc as any).lastAutoTable.finalY + 12;
+    }
     
     // Sección de Duplicados
     if (hasDuplicates) {
@@ -151,18 +210,18 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
       startY += 10;
       
       // FIX: Cast the result of Object.entries to provide a specific type for `candidates`, resolving the error on `candidates.map`.
-      (Object.entries(duplicatedCandidatesByUnion) as [string, { identifier: string; otherUnions: string[], row: TableRow }[]][]).forEach(([union, candidates], index) => {
+      (Object.entries(duplicatedCandidatesByUnion) as [string, CandidateDuplicate[]][]).forEach(([union, candidates], index) => {
         if (index > 0) startY += 5; // Add space between tables
         
         doc.setFontSize(12);
         doc.setFont('helvetica', 'bold');
         doc.setTextColor(40);
-        doc.text(`Sindicato: ${union}`, 20, startY);
+        doc.text(describeUnion(union), 20, startY);
         startY += 8;
 
         const tableColumns = ["Candidato", "También Presentado En"];
         const tableBody = candidates.map(candidate => [
-            candidate.identifier,
+            withCollege(candidate),
             candidate.otherUnions.join(', ')
         ]);
 
@@ -188,6 +247,108 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
     } else {
       doc.setFontSize(12);
       doc.text('No se han encontrado candidatos en múltiples sindicatos.', 20, startY);
+      startY += 12;
+    }
+
+    // Sección de listas de candidatos
+    if (reportedLists.length > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40);
+      doc.text('Listas de Candidatos', 20, startY);
+      startY += 8;
+
+      autoTable(doc, {
+        head: [["Centro", "Sindicato", "Titulares", "Suplentes", "Aviso"]],
+        body: reportedLists.map(list => [
+          list.unit.label,
+          getUnionDisplayName(getUnionDefinition(unionRegistry, list.union)),
+          list.titulares.map((name, index) => `${index + 1}. ${name}`).join('\n'),
+          list.suplentes.map((name, index) => `S${index + 1}. ${name}`).join('\n'),
+          list.warning
+        ]),
+        startY: startY,
+        theme: 'grid',
+        headStyles: { fillColor: [93, 134, 108] }, // #5D866C
+      });
+      startY = (doc as any).lastAutoTable.finalY + 6;
+
+      if (unassignedCollegeCandidates.length > 0) {
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(185, 28, 28);
+        const lines = doc.splitTextToSize(`Candidatos sin colegio asignado: ${unassignedCollegeCandidates.join(', ')}`, pageWidth - 40);
+        doc.text(lines, 20, startY);
+        startY += lines.length * 5;
+        doc.setTextColor(40);
+      }
+      startY += 6;
+    }
+
+    // Sección de candidatos no elegibles
+    if (ineligibleCandidates.length > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40);
+      doc.text('Candidatos No Elegibles', 20, startY);
+      startY += 8;
+
+      autoTable(doc, {
+        head: [["Candidato", "Sindicatos", "Motivo"]],
+        body: ineligibleCandidates.map(candidate => [
+          candidate.identifier,
+          candidate.unions.join(', '),
+          candidate.reasons.join('. ')
+        ]),
+        startY: startY,
+        theme: 'grid',
+        headStyles: { fillColor: [185, 28, 28] },
+      });
+      startY = (doc as any).lastAutoTable.finalY + 10;
+    }
+
+    // Sección de posibles duplicados
+    if (reportedPossibleDuplicates.length > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40);
+      doc.text('Posibles Duplicados (nombres parecidos)', 20, startY);
+      startY += 8;
+
+      autoTable(doc, {
+        head: [["Confianza", "Candidato", "Posible Duplicado", "Estado"]],
+        body: reportedPossibleDuplicates.map(pair => [
+          `${Math.round(pair.score * 100)}%`,
+          `${pair.first.identifier} (${pair.first.unions.join(', ')})`,
+          `${pair.second.identifier} (${pair.second.unions.join(', ')})`,
+          pair.decision === 'confirmed' ? 'Confirmado' : 'Pendiente'
+        ]),
+        startY: startY,
+        theme: 'grid',
+        headStyles: { fillColor: [234, 88, 12] },
+      });
+      startY = (doc as any).lastAutoTable.finalY + 10;
+    }
+
+    // Sección de identificadores no válidos
+    if (invalidIdCandidates.length > 0) {
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40);
+      doc.text('Candidatos con Identificador No Válido', 20, startY);
+      startY += 8;
+
+      autoTable(doc, {
+        head: [["Candidato", "Identificador", "Sindicatos"]],
+        body: invalidIdCandidates.map(candidate => [
+          candidate.identifier,
+          candidate.invalidIdMessage ?? '',
+          candidate.otherUnions.join(', ')
+        ]),
+        startY: startY,
+        theme: 'grid',
+        headStyles: { fillColor: [185, 28, 28] },
+      });
     }
 
     doc.save('informe_candidaturas_duplicadas.pdf');
@@ -220,14 +381,61 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
             <h3>Fechas Clave</h3>
             <p><strong>Presentación de candidaturas:</strong> ${formatDisplayDate(electionDates.submissionDate)}</p>
             <p><strong>Fecha de votación:</strong> ${formatDisplayDate(electionDates.votingDate)}</p>
+            <p><strong>Identificación de candidatos:</strong> ${describeIdentityRule(identityRule)}</p>
     `;
 
+    if (calendar.milestones.length > 0) {
+        htmlContent += `
+            <h3>Calendario Electoral</h3>
+            ${calendar.warnings.map(warning => `<p style="color: #b91c1c;">${warning}</p>`).join('')}
+            <table>
+                <thead>
+                    <tr>
+                        <th>Fecha</th>
+                        <th>Hito</th>
+                        <th>Descripción</th>
+                    </tr>
+                </thead>
+                <tbody>
+        `;
+        calendar.milestones.forEach(milestone => {
+            htmlContent += `
+                    <tr>
+                        <td>${formatMilestoneDates(milestone)}</td>
+                        <td>${milestone.label}${milestone.isPast ? ' (pasado)' : ''}</td>
+                        <td>${milestone.description}</td>
+                    </tr>`;
+        });
+        htmlContent += '</tbody></table>';
+    }
+
+    if (workcenterSeats.length > 0) {
+        htmlContent += `
+            <h3>Representantes a Elegir por Centro</h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th>Centro</th>
+                        <th>Plantilla</th>
+                        <th>Órgano</th>
+                        <th>Puestos</th>
+                        ${allUnions.map(union => `<th>${union}</th>`).join('')}
+                    </tr>
+                </thead>
+                <tbody>
+        `;
+        seatRows.forEach(row => {
+            htmlContent += `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`;
+        });
+        htmlContent += '</tbody></table>';
+    }
+
     if (hasDuplicates) {
         htmlContent += '<h3>Candidatos en Múltiples Sindicatos</h3>';
         
         // FIX: Cast the result of Object.entries to provide a specific type for `candidates`, resolving the error on `candidates.forEach`.
-        (Object.entries(duplicatedCandidatesByUnion) as [string, { identifier: string; otherUnions: string[], row: TableRow }[]][]).forEach(([union, candidates]) => {
-            htmlContent += `<h4>Sindicato: ${union}</h4>`;
+        (Object.entries(duplicatedCandidatesByUnion) as [string, CandidateDuplicate[]][]).forEach(([union, candidates]) => {
+            htmlContent += `<h4>${describeUnion(union)}</h4>`;
             htmlContent += `
               <table>
                 <thead>
@@ -242,7 +450,7 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
             candidates.forEach(candidate => {
                 htmlContent += `
                     <tr>
-                        <td>${candidate.identifier}</td>
+                        <td>${withCollege(candidate)}</td>
                         <td>${candidate.otherUnions.join(', ')}</td>
                     </tr>`;
             });
@@ -255,6 +463,95 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
             <p>No se han encontrado candidatos en múltiples sindicatos.</p>
         `;
     }
+
+    if (reportedLists.length > 0) {
+        htmlContent += '<h3>Listas de Candidatos</h3>';
+        reportedLists.forEach(list => {
+            htmlContent += `<h4>${getUnionDisplayName(getUnionDefinition(unionRegistry, list.union))} · ${list.unit.label}</h4>`;
+            if (list.warning) {
+                htmlContent += `<p style="color: #b91c1c;">${list.warning}</p>`;
+            }
+            htmlContent += `<p><strong>Titulares:</strong> ${list.titulares.map((name, index) => `${index + 1}. ${name}`).join(', ') || '—'}</p>`;
+            htmlContent += `<p><strong>Suplentes:</strong> ${list.suplentes.map((name, index) => `${index + 1}. ${name}`).join(', ') || '—'}</p>`;
+        });
+        if (unassignedCollegeCandidates.length > 0) {
+            htmlContent += `<p style="color: #b91c1c;"><strong>Candidatos sin colegio asignado:</strong> ${unassignedCollegeCandidates.join(', ')}</p>`;
+        }
+    }
+
+    if (ineligibleCandidates.length > 0) {
+        htmlContent += `
+            <h3>Candidatos No Elegibles</h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th>Candidato</th>
+                        <th>Sindicatos</th>
+                        <th>Motivo</th>
+                    </tr>
+                </thead>
+                <tbody>
+        `;
+        ineligibleCandidates.forEach(candidate => {
+            htmlContent += `
+                    <tr>
+                        <td>${candidate.identifier}</td>
+                        <td>${candidate.unions.join(', ')}</td>
+                        <td>${candidate.reasons.join('. ')}</td>
+                    </tr>`;
+        });
+        htmlContent += '</tbody></table>';
+    }
+
+    if (reportedPossibleDuplicates.length > 0) {
+        htmlContent += `
+            <h3>Posibles Duplicados (nombres parecidos)</h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th>Confianza</th>
+                        <th>Candidato</th>
+                        <th>Posible Duplicado</th>
+                        <th>Estado</th>
+                    </tr>
+                </thead>
+                <tbody>
+        `;
+        reportedPossibleDuplicates.forEach(pair => {
+            htmlContent += `
+                    <tr>
+                        <td>${Math.round(pair.score * 100)}%</td>
+                        <td>${pair.first.identifier} (${pair.first.unions.join(', ')})</td>
+                        <td>${pair.second.identifier} (${pair.second.unions.join(', ')})</td>
+                        <td>${pair.decision === 'confirmed' ? 'Confirmado' : 'Pendiente'}</td>
+                    </tr>`;
+        });
+        htmlContent += '</tbody></table>';
+    }
+
+    if (invalidIdCandidates.length > 0) {
+        htmlContent += `
+            <h3>Candidatos con Identificador No Válido</h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th>Candidato</th>
+                        <th>Identificador</th>
+                        <th>Sindicatos</th>
+                    </tr>
+                </thead>
+                <tbody>
+        `;
+        invalidIdCandidates.forEach(candidate => {
+            htmlContent += `
+                    <tr>
+                        <td>${candidate.identifier}</td>
+                        <td>${candidate.invalidIdMessage ?? ''}</td>
+                        <td>${candidate.otherUnions.join(', ')}</td>
+                    </tr>`;
+        });
+        htmlContent += '</tbody></table>';
+    }
     
     htmlContent += '</body></html>';
     
@@ -267,6 +564,16 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
     document.body.removeChild(link);
   };
   
+  const handleExportCalendar = () => {
+    const blob = new Blob([buildICS(calendar.milestones, 'Elecciones sindicales')], { type: 'text/calendar;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'calendario_electoral.ics';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+  
   // Base button classes for professional styling
   const btnBase = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm flex items-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2";
   const btnSecondary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
@@ -301,6 +608,15 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
             <WordIcon className="w-5 h-5" />
             Word
           </button>
+          <button
+            onClick={handleExportCalendar}
+            disabled={calendar.milestones.length === 0}
+            className={`${btnAction} disabled:opacity-50 disabled:cursor-not-allowed`}
+            title="Exportar el calendario para importarlo en la agenda"
+          >
+            <ExportIcon className="w-5 h-5" />
+            Calendario (.ics)
+          </button>
         </div>
       </header>
       
@@ -317,15 +633,31 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
                     <p className="font-mono text-gray-800">{formatDisplayDate(electionDates.votingDate)}</p>
                 </div>
             </div>
+            <p className="mt-4 text-sm text-gray-600">
+                <span className="font-medium">Identificación de candidatos:</span> {describeIdentityRule(identityRule)}
+            </p>
+        </section>
+
+        <section className="mb-8">
+            <h3 className="text-xl font-semibold text-gray-800 border-b pb-2 mb-4">Calendario Electoral</h3>
+            <ElectoralTimeline calendar={calendar} />
+        </section>
+
+        <section className="mb-8">
+            <h3 className="text-xl font-semibold text-gray-800 border-b pb-2 mb-4">Representantes a Elegir por Centro</h3>
+            <SeatSummaryTable seats={workcenterSeats} unions={allUnions} />
+            <p className="mt-2 text-xs text-secondary-light">Las cifras de cada sindicato son los candidatos marcados; en rojo, las listas con menos candidatos que puestos.</p>
         </section>
 
         {hasDuplicates ? (
           <section className="space-y-8">
             <h3 className="text-xl font-semibold text-gray-800 border-b pb-2">Candidatos en Múltiples Sindicatos</h3>
             {/* FIX: Cast the result of Object.entries to provide a specific type for `candidates`, resolving errors on `candidates.length` and `candidates.map`. */}
-            {(Object.entries(duplicatedCandidatesByUnion) as [string, { identifier: string; otherUnions: string[], row: TableRow }[]][]).map(([union, candidates]) => (
+            {(Object.entries(duplicatedCandidatesByUnion) as [string, CandidateDuplicate[]][]).map(([union, candidates]) => (
                 <div key={union} className="p-4 border border-yellow-300 bg-yellow-50 rounded-lg">
-                    <h4 className="text-lg font-semibold text-yellow-800 mb-3">{union} ({candidates.length} encontrados)</h4>
+                    <h4 className="text-lg font-semibold text-yellow-800 mb-3">
+                        <UnionLabel union={getUnionDefinition(unionRegistry, union)} showName /> ({candidates.length} encontrados)
+                    </h4>
                     <div className="mt-2 overflow-x-auto">
                       <table className="min-w-full divide-y divide-gray-200 border">
                           <thead className="bg-gray-100">
@@ -333,6 +665,11 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
                                   <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
                                       Candidato
                                   </th>
+                                  {hasColleges && (
+                                      <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
+                                          Colegio
+                                      </th>
+                                  )}
                                   <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">
                                       También Presentado En
                                   </th>
@@ -343,7 +680,17 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
                                   <tr key={`${candidate.identifier}-${index}`} className="hover:bg-gray-50">
                                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                                           {candidate.identifier}
+                                          {candidate.invalidIdMessage && (
+                                              <span className="ml-2 inline-block px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-semibold" title={candidate.invalidIdMessage}>
+                                                  DNI no válido
+                                              </span>
+                                          )}
                                       </td>
+                                      {hasColleges && (
+                                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                                              {getCollegeLabel(candidate.row, collegeMapping)}
+                                          </td>
+                                      )}
                                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                                           {candidate.otherUnions.join(', ')}
                                       </td>
@@ -361,6 +708,103 @@ export const Report: React.FC<ReportProps> = ({ data, checkedState, allUnions, e
             <p className="mt-2">Ningún candidato ha sido seleccionado en más de un sindicato.</p>
           </section>
         )}
+
+        {reportedLists.length > 0 && (
+          <section className="mt-8">
+            <h3 className="text-xl font-semibold text-gray-800 border-b pb-2 mb-4">Listas de Candidatos</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {reportedLists.map(list => (
+                <div key={`${list.union}-${list.unit.key}`} className={`p-4 border rounded-lg ${list.warning ? 'border-red-300 bg-red-50' : 'bg-gray-50/70'}`}>
+                  <h4 className="text-lg font-semibold text-gray-800">
+                    <UnionLabel union={getUnionDefinition(unionRegistry, list.union)} showName />
+                  </h4>
+                  <p className="text-xs text-gray-500 mb-2">{list.unit.label} · {list.unit.seats} {list.unit.seats === 1 ? 'puesto' : 'puestos'}</p>
+                  {list.warning && <p className="text-sm font-semibold text-red-700 mb-2">{list.warning}</p>}
+                  <ol className="text-sm text-gray-800 list-decimal list-inside">
+                    {list.titulares.map(name => <li key={name}>{name}</li>)}
+                  </ol>
+                  {list.suplentes.length > 0 && (
+                    <>
+                      <p className="mt-2 text-xs font-medium text-gray-600">Suplentes</p>
+                      <ol className="text-sm text-gray-600 list-decimal list-inside">
+                        {list.suplentes.map(name => <li key={name}>{name}</li>)}
+                      </ol>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+            {unassignedCollegeCandidates.length > 0 && (
+              <p className="mt-4 text-sm text-yellow-800 bg-yellow-50 p-2 rounded-lg">
+                Candidatos sin colegio asignado (no figuran en ninguna lista de comité): {unassignedCollegeCandidates.join(', ')}
+              </p>
+            )}
+          </section>
+        )}
+
+        <section className="mt-8 p-4 border border-red-300 bg-red-50 rounded-lg">
+          <h3 className="text-lg font-semibold text-red-800 mb-3">Candidatos No Elegibles ({ineligibleCandidates.length})</h3>
+          {!electionDates.votingDate ? (
+            <p className="text-sm text-red-700">Indica la fecha de votación en la configuración para comprobar la edad y la antigüedad de los candidatos.</p>
+          ) : ineligibleCandidates.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 border">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Candidato</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Sindicatos</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Motivo</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {ineligibleCandidates.map((candidate, index) => (
+                    <tr key={`${candidate.identifier}-${index}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{candidate.identifier}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{candidate.unions.join(', ')}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-red-700">{candidate.reasons.join('. ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-700">Todos los candidatos marcados cumplen los requisitos de edad y antigüedad.</p>
+          )}
+        </section>
+
+        {identityRule.fuzzy && (
+          <section className="mt-8 p-4 border border-orange-300 bg-orange-50 rounded-lg">
+            <h3 className="text-lg font-semibold text-orange-800 mb-3">Posibles Duplicados ({reportedPossibleDuplicates.length})</h3>
+            <PossibleDuplicatesList possibleDuplicates={reportedPossibleDuplicates} />
+          </section>
+        )}
+
+        {invalidIdCandidates.length > 0 && (
+          <section className="mt-8 p-4 border border-red-300 bg-red-50 rounded-lg">
+            <h3 className="text-lg font-semibold text-red-800 mb-1">Candidatos con Identificador No Válido ({invalidIdCandidates.length})</h3>
+            <p className="text-sm text-red-700 mb-3">Una errata en el DNI puede ocultar un duplicado. Revísalos antes de presentar las listas.</p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 border">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Candidato</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Identificador</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Sindicatos</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {invalidIdCandidates.map((candidate, index) => (
+                    <tr key={`${candidate.identifier}-${index}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{candidate.identifier}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-red-700">{candidate.invalidIdMessage}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{candidate.otherUnions.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,304 @@
+import React, { useMemo } from 'react';
+import type { TableRow, ElectionResult } from '../types';
+import type { WorkcenterSeats } from '../services/seatCalculation';
+import {
+  ELECTORAL_THRESHOLD, EMPTY_RESULT, ElectoralUnit, SeatAllocation, getElectoralUnits, allocateSeats,
+} from '../services/electionResults';
+import { CandidateList, RowsByUnit, buildCandidateList } from '../services/candidateLists';
+import { getCandidateLabel } from '../services/candidateIdentity';
+import { PDFIcon } from './Icon';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+interface ResultsViewProps {
+  data: TableRow[];
+  checkedState: Record<number, Record<string, boolean>>;
+  unions: string[];
+  workcenterSeats: WorkcenterSeats[];
+  rowsByUnit: RowsByUnit;
+  votingDate: string;
+  results: Record<string, ElectionResult>;
+  onResultChange: (key: string, result: ElectionResult) => void;
+  candidateOrder: Record<string, number[]>;
+  substitutes: Record<string, number[]>;
+  onEditLists: () => void;
+  onBack: () => void;
+}
+
+interface UnitSummary {
+  unit: ElectoralUnit;
+  result: ElectionResult;
+  allocation: SeatAllocation;
+  listsByUnion: Record<string, CandidateList>;
+}
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(2)}%`;
+
+// Formatear fecha para mostrarla amigablemente
+const formatDisplayDate = (dateString: string) => {
+  if (!dateString) return 'No especificada';
+  const [year, month, day] = dateString.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+export const ResultsView: React.FC<ResultsViewProps> = ({
+  data, checkedState, unions, workcenterSeats, rowsByUnit, votingDate,
+  results, onResultChange, candidateOrder, substitutes, onEditLists, onBack,
+}) => {
+  const units = useMemo(() => getElectoralUnits(workcenterSeats), [workcenterSeats]);
+  const delegateCenters = workcenterSeats.filter(center => center.body === 'delegados');
+
+  const summaries = useMemo<UnitSummary[]>(() => units.map(unit => {
+    const result = results[unit.key] ?? EMPTY_RESULT;
+    const listsByUnion = Object.fromEntries(unions.map(union => [
+      union,
+      buildCandidateList(rowsByUnit, checkedState, union, unit, candidateOrder[union], substitutes[union]),
+    ]));
+    return { unit, result, allocation: allocateSeats(unit.seats, result, unions), listsByUnion };
+  }), [units, results, unions, rowsByUnit, checkedState, candidateOrder, substitutes]);
+
+  // Los electos de cada lista son sus primeros titulares, tantos como puestos obtenidos
+  const getElected = (summary: UnitSummary, union: string): string[] => {
+    const seats = summary.allocation.lists.find(list => list.union === union)?.seats ?? 0;
+    return summary.listsByUnion[union].titulares.slice(0, seats).map(rowIndex => getCandidateLabel(data[rowIndex]));
+  };
+
+  const handleNumberChange = (key: string, result: ElectionResult, field: 'validVotes' | 'blankVotes', value: string) => {
+    onResultChange(key, { ...result, [field]: Math.max(0, Number(value) || 0) });
+  };
+
+  const handleUnionVotesChange = (key: string, result: ElectionResult, union: string, value: string) => {
+    onResultChange(key, { ...result, votesByUnion: { ...result.votesByUnion, [union]: Math.max(0, Number(value) || 0) } });
+  };
+
+  const handleDownloadActa = () => {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    let startY = 20;
+
+    // Cabecera del documento
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Acta de Escrutinio', pageWidth / 2, startY, { align: 'center' });
+    startY += 8;
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Dinosol Supermercados', pageWidth / 2, startY, { align: 'center' });
+    startY += 6;
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(`Fecha de votación: ${formatDisplayDate(votingDate)} · Generado el: ${new Date().toLocaleDateString('es-ES')}`, pageWidth / 2, startY, { align: 'center' });
+    startY += 6;
+    doc.setLineWidth(0.5);
+    doc.line(20, startY, pageWidth - 20, startY);
+    startY += 10;
+
+    summaries.forEach(summary => {
+      if (startY > doc.internal.pageSize.getHeight() - 60) {
+        doc.addPage();
+        startY = 20;
+      }
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40);
+      doc.text(summary.unit.label, 20, startY);
+      startY += 7;
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.text(
+        `Puestos: ${summary.unit.seats} · Votos válidos: ${summary.result.validVotes} · En blanco: ${summary.result.blankVotes} · Cociente: ${summary.allocation.quotient.toFixed(2)}`,
+        22, startY
+      );
+      startY += 4;
+
+      autoTable(doc, {
+        head: [["Sindicato", "Votos", "%", "Puestos", "Electos"]],
+        body: summary.allocation.lists.map(list => [
+          list.union,
+          String(list.votes),
+          formatPercent(list.share),
+          list.passesThreshold ? String(list.seats) : 'No alcanza el 5%',
+          getElected(summary, list.union).join(', ')
+        ]),
+        startY: startY,
+        theme: 'grid',
+        headStyles: { fillColor: [93, 134, 108] }, // #5D866C
+      });
+      startY = (doc as any).lastAutoTable.finalY + 6;
+
+      summary.allocation.warnings.forEach(warning => {
+        doc.setTextColor(185, 28, 28);
+        doc.text(warning, 22, startY);
+        startY += 5;
+      });
+      doc.setTextColor(40);
+      startY += 6;
+    });
+
+    // Firmas de la mesa electoral
+    if (startY > doc.internal.pageSize.getHeight() - 50) {
+      doc.addPage();
+      startY = 20;
+    }
+    startY += 10;
+    doc.setFontSize(11);
+    const signatureWidth = (pageWidth - 40) / 3;
+    ['Presidente/a', 'Secretario/a', 'Interventores/as'].forEach((role, index) => {
+      const x = 20 + index * signatureWidth;
+      doc.line(x + 5, startY + 20, x + signatureWidth - 5, startY + 20);
+      doc.text(role, x + signatureWidth / 2, startY + 26, { align: 'center' });
+    });
+
+    doc.save('acta_escrutinio.pdf');
+  };
+
+  // Base button classes for professional styling
+  const btnBase = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm flex items-center gap-2 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed";
+  const btnAction = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
+  const numberInput = "w-24 px-2 py-1 border border-gray-300 rounded-md text-right font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="w-full h-full bg-gray-50 p-4 sm:p-6 lg:p-8 flex flex-col font-sans">
+      <header className="flex-shrink-0 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6 border-b border-gray-200 pb-4">
+        <div>
+          <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">Resultados de la Votación</h2>
+          <p className="text-secondary-light mt-1">
+            Introduce los votos de cada centro y colegio. Solo reparten puestos las listas con al menos el {ELECTORAL_THRESHOLD * 100}% de los votos válidos.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button onClick={onBack} className={btnAction}>
+            Volver a la Tabla
+          </button>
+          <button onClick={onEditLists} className={btnAction}>
+            Ordenar Listas
+          </button>
+          <button onClick={handleDownloadActa} disabled={summaries.length === 0} className={btnAction}>
+            <PDFIcon className="w-5 h-5" />
+            Acta PDF
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-grow overflow-y-auto space-y-6">
+        {summaries.length === 0 && (
+          <section className="text-center text-secondary-light py-16 bg-white rounded-lg border border-gray-200">
+            <h3 className="text-xl font-semibold">No hay centros con comité de empresa</h3>
+            <p className="mt-2">El reparto proporcional solo se aplica a los centros con 50 o más trabajadores.</p>
+          </section>
+        )}
+
+        {summaries.map(summary => {
+          const { unit, result, allocation } = summary;
+          return (
+            <section key={unit.key} className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+              <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-800">{unit.label}</h3>
+                  <p className="text-sm text-gray-500">
+                    {unit.seats} puestos · Cociente: <span className="font-mono">{allocation.quotient.toFixed(2)}</span>
+                  </p>
+                </div>
+                <div className="flex gap-4">
+                  <label className="text-xs font-medium text-gray-600">
+                    Votos válidos
+                    <input
+                      type="number"
+                      min={0}
+                      value={result.validVotes}
+                      onChange={(e) => handleNumberChange(unit.key, result, 'validVotes', e.target.value)}
+                      className={`${numberInput} block mt-1`}
+                    />
+                  </label>
+                  <label className="text-xs font-medium text-gray-600">
+                    Votos en blanco
+                    <input
+                      type="number"
+                      min={0}
+                      value={result.blankVotes}
+                      onChange={(e) => handleNumberChange(unit.key, result, 'blankVotes', e.target.value)}
+                      className={`${numberInput} block mt-1`}
+                    />
+                  </label>
+                </div>
+              </div>
+
+              {allocation.warnings.map(warning => (
+                <p key={warning} className="mb-3 text-sm text-red-700 bg-red-50 p-2 rounded-lg">{warning}</p>
+              ))}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 border text-sm">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Sindicato</th>
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">Votos</th>
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">%</th>
+                      <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">Puestos</th>
+                      <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Candidatos (en orden de lista)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {allocation.lists.map(list => {
+                      const { titulares, suplentes } = summary.listsByUnion[list.union];
+                      const isShort = list.seats > titulares.length;
+                      return (
+                        <tr key={list.union} className={list.passesThreshold ? '' : 'bg-gray-50 text-gray-500'}>
+                          <td className="px-4 py-2 font-medium text-gray-900 align-top">{list.union}</td>
+                          <td className="px-4 py-2 text-right align-top">
+                            <input
+                              type="number"
+                              min={0}
+                              value={result.votesByUnion[list.union] ?? 0}
+                              onChange={(e) => handleUnionVotesChange(unit.key, result, list.union, e.target.value)}
+                              className={numberInput}
+                              aria-label={`Votos de ${list.union}`}
+                            />
+                          </td>
+                          <td className="px-4 py-2 text-right font-mono align-top">{formatPercent(list.share)}</td>
+                          <td className="px-4 py-2 text-right font-mono font-bold align-top" title={list.remainderSeats > 0 ? 'Incluye un puesto por resto mayor' : undefined}>
+                            {list.passesThreshold ? list.seats : '—'}
+                            {list.remainderSeats > 0 && <span className="ml-1 text-xs text-gray-400">*</span>}
+                          </td>
+                          <td className="px-4 py-2 align-top">
+                            {titulares.length === 0 && suplentes.length === 0 ? (
+                              <span className="text-xs text-gray-400">Sin candidatos marcados</span>
+                            ) : (
+                              <ol className="space-y-0.5">
+                                {titulares.map((rowIndex, position) => (
+                                  <li key={rowIndex} className={`flex items-center gap-2 ${position < list.seats ? 'font-semibold text-primary' : 'text-gray-700'}`}>
+                                    <span className="w-5 text-right text-xs text-gray-400">{position + 1}.</span>
+                                    <span className="truncate">{getCandidateLabel(data[rowIndex])}</span>
+                                  </li>
+                                ))}
+                                {suplentes.map((rowIndex, position) => (
+                                  <li key={rowIndex} className="flex items-center gap-2 text-gray-500">
+                                    <span className="w-5 text-right text-xs text-gray-400">S{position + 1}</span>
+                                    <span className="truncate">{getCandidateLabel(data[rowIndex])}</span>
+                                  </li>
+                                ))}
+                              </ol>
+                            )}
+                            {isShort && (
+                              <p className="mt-1 text-xs text-red-700">La lista tiene menos titulares que puestos obtenidos.</p>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          );
+        })}
+
+        {delegateCenters.length > 0 && (
+          <p className="text-xs text-secondary-light">
+            Los centros con delegados de personal ({delegateCenters.map(center => center.workcenter).join(', ')}) eligen por mayoría de votos personales y no se reparten aquí.
+          </p>
+        )}
+      </main>
+    </div>
+  );
+};
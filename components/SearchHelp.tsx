@@ -0,0 +1,60 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+const EXAMPLES: { query: string; description: string }[] = [
+  { query: 'garcia lopez', description: 'Filas que contienen las dos palabras' },
+  { query: '"la laguna"', description: 'La frase exacta' },
+  { query: 'centro:"la laguna"', description: 'Solo en las columnas cuyo nombre contiene «centro»' },
+  { query: 'dni:', description: 'La columna tiene algún dato' },
+  { query: '-dni:', description: 'Un - delante niega la condición: sin DNI' },
+  { query: 'sindicato:CCOO', description: 'Marcados para CCOO' },
+  { query: 'duplicado:si', description: 'Marcados por más de un sindicato' },
+  { query: 'sin-marcar', description: 'Sin ninguna marca' },
+];
+
+// Botón de ayuda del buscador con la sintaxis de los filtros.
+export const SearchHelp: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative flex-shrink-0" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-8 h-8 rounded-full text-sm font-bold text-primary border border-gray-300 bg-white hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+        title="Ayuda de búsqueda"
+        aria-expanded={isOpen}
+        aria-label="Ayuda de búsqueda"
+      >
+        ?
+      </button>
+      {isOpen && (
+        <div className="origin-top-right absolute right-0 mt-2 w-96 max-w-[90vw] rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-20 p-4 animate-fade-in-down">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Cómo buscar</h3>
+          <p className="text-xs text-gray-500 mb-3">Todas las condiciones deben cumplirse. No importan las mayúsculas ni las tildes.</p>
+          <dl className="space-y-1.5 text-xs">
+            {EXAMPLES.map(({ query, description }) => (
+              <div key={query} className="flex gap-3">
+                <dt className="w-36 flex-shrink-0 font-mono text-primary">{query}</dt>
+                <dd className="text-gray-600">{description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
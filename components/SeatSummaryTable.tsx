@@ -0,0 +1,87 @@
+import React from 'react';
+import type { WorkcenterSeats } from '../services/seatCalculation';
+import { BODY_LABELS } from '../services/seatCalculation';
+import { COLLEGE_LABELS } from '../services/electoralColleges';
+
+interface SeatSummaryTableProps {
+  seats: WorkcenterSeats[];
+  unions: string[];
+}
+
+// Tabla con los representantes a elegir en cada centro y los candidatos marcados por sindicato.
+export const SeatSummaryTable: React.FC<SeatSummaryTableProps> = ({ seats, unions }) => {
+  if (seats.length === 0) {
+    return <p className="text-sm text-gray-500">No hay censo cargado.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 border text-sm">
+        <thead className="bg-gray-100">
+          <tr>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Centro</th>
+            <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">Plantilla</th>
+            <th scope="col" className="px-4 py-2 text-left text-xs font-bold text-gray-600 uppercase tracking-wider">Órgano</th>
+            <th scope="col" className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">Puestos</th>
+            {unions.map(union => (
+              <th key={union} scope="col" className="px-4 py-2 text-right text-xs font-bold text-gray-600 uppercase tracking-wider">{union}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {seats.map(center => (
+            <React.Fragment key={center.workcenter}>
+            <tr className="hover:bg-gray-50">
+              <td className="px-4 py-2 font-medium text-gray-900">{center.workcenter}</td>
+              <td className="px-4 py-2 text-right font-mono text-gray-700">{center.staff}</td>
+              <td className="px-4 py-2 text-gray-700" title={center.note}>
+                {BODY_LABELS[center.body]}
+                {center.note && <span className="ml-1 text-xs text-gray-400">*</span>}
+              </td>
+              <td className="px-4 py-2 text-right font-mono font-bold text-gray-900">{center.seats}</td>
+              {unions.map(union => {
+                const count = center.candidatesByUnion[union] ?? 0;
+                // Una lista con candidatos pero con menos que puestos a cubrir se resalta
+                const isShort = count > 0 && count < center.seats;
+                return (
+                  <td
+                    key={union}
+                    className={`px-4 py-2 text-right font-mono ${isShort ? 'text-red-700 font-bold bg-red-50' : 'text-gray-700'}`}
+                    title={isShort ? `Faltan ${center.seats - count} candidatos para cubrir los puestos` : undefined}
+                  >
+                    {count}
+                  </td>
+                );
+              })}
+            </tr>
+            {center.colleges?.map(college => (
+              <tr key={college.college} className="bg-gray-50/70 text-xs">
+                <td className="pl-8 pr-4 py-1 text-gray-600">{COLLEGE_LABELS[college.college]}</td>
+                <td className="px-4 py-1 text-right font-mono text-gray-600">{college.staff}</td>
+                <td className="px-4 py-1 text-gray-500">Colegio electoral</td>
+                <td className="px-4 py-1 text-right font-mono font-bold text-gray-700">{college.seats}</td>
+                {unions.map(union => {
+                  const count = college.candidatesByUnion[union] ?? 0;
+                  const isShort = count > 0 && count < college.seats;
+                  return (
+                    <td key={union} className={`px-4 py-1 text-right font-mono ${isShort ? 'text-red-700 font-bold' : 'text-gray-600'}`}>
+                      {count}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {(center.unassignedStaff ?? 0) > 0 && (
+              <tr className="bg-yellow-50 text-xs">
+                <td colSpan={4 + unions.length} className="pl-8 pr-4 py-1 text-yellow-800">
+                  {center.unassignedStaff} personas sin colegio asignado (revisa la asignación de categorías)
+                </td>
+              </tr>
+            )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import type { ParsedSource } from '../services/fileParser';
+import { describeHeaderDifferences, getSourceLabel } from '../services/fileParser';
+
+interface SourcePickerModalProps {
+  isOpen: boolean;
+  sources: ParsedSource[];
+  onConfirm: (selected: ParsedSource[]) => void;
+  onCancel: () => void;
+}
+
+// Selector de las hojas y archivos que forman el censo cuando se importa más de una tabla.
+export const SourcePickerModal: React.FC<SourcePickerModalProps> = ({ isOpen, sources, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(new Set(sources.map((_, index) => index)));
+    }
+  }, [isOpen, sources]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const toggleSource = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const includeFileName = new Set(sources.map(source => source.fileName)).size > 1;
+  const selectedSources = sources.filter((_, index) => selected.has(index));
+  const selectedRows = selectedSources.reduce((sum, source) => sum + source.data.length, 0);
+  const warnings = describeHeaderDifferences(selectedSources);
+
+  const btnBase = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none";
+  const btnPrimary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
+  const btnSecondary = `${btnBase} bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 focus-visible:ring-primary`;
+  const linkClass = "text-xs font-semibold text-primary hover:underline";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="source-picker-modal-title"
+      >
+        <h2 id="source-picker-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Hojas y Archivos a Importar</h2>
+        <p className="text-secondary-light mb-4">
+          Elige qué tablas forman el censo. Se unirán en una sola, alineando las columnas por su nombre, y cada fila indicará su origen.
+        </p>
+
+        <div className="flex gap-4 mb-2">
+          <button onClick={() => setSelected(new Set(sources.map((_, index) => index)))} className={linkClass}>Seleccionar todas</button>
+          <button onClick={() => setSelected(new Set())} className={linkClass}>Ninguna</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto border-t border-b border-gray-200 -mx-6 px-6 divide-y divide-gray-100">
+          {sources.map((source, index) => (
+            <label key={index} className="flex items-start gap-3 py-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has(index)}
+                onChange={() => toggleSource(index)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              <span className="min-w-0">
+                <span className="block font-medium text-gray-900">{getSourceLabel(source, includeFileName)}</span>
+                <span className="block text-xs text-gray-500 truncate" title={source.headers.join(', ')}>
+                  {source.data.length} filas · {source.headers.length} columnas: {source.headers.join(', ')}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="mt-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 p-3 rounded-lg max-h-32 overflow-y-auto">
+            <p className="font-semibold mb-1">Las columnas no coinciden entre las tablas elegidas:</p>
+            <ul className="list-disc list-inside space-y-0.5">
+              {warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+            <p className="mt-1 text-xs">Las celdas de las columnas que falten quedarán vacías.</p>
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 flex-shrink-0">
+          <button onClick={onCancel} className={btnSecondary}>Cancelar</button>
+          <button
+            onClick={() => onConfirm(selectedSources)}
+            className={btnPrimary}
+            disabled={selectedSources.length === 0 || selectedRows === 0}
+          >
+            Importar {selectedRows} filas
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
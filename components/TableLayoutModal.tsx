@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ParsedSource } from '../services/fileParser';
+import type { TableLayout } from '../services/tableLayout';
+import { applyTableLayout, getSourceLabel } from '../services/fileParser';
+import { buildTable } from '../services/tableLayout';
+
+interface TableLayoutModalProps {
+  isOpen: boolean;
+  sources: ParsedSource[];
+  onConfirm: (sources: ParsedSource[]) => void;
+  onCancel: () => void;
+}
+
+// Filas que se muestran bajo la cabecera y al final de la hoja.
+const PREVIEW_TOP_ROWS = 8;
+const PREVIEW_BOTTOM_ROWS = 8;
+const PREVIEW_COLUMNS = 10;
+
+const formatCell = (value: unknown): string =>
+  value instanceof Date ? value.toLocaleDateString('es-ES') : String(value ?? '');
+
+// Vista previa de las hojas para corregir la fila de cabecera y el final de los datos antes de importar.
+export const TableLayoutModal: React.FC<TableLayoutModalProps> = ({ isOpen, sources, onConfirm, onCancel }) => {
+  const [layouts, setLayouts] = useState<TableLayout[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLayouts(sources.map(source => source.layout ?? { headerRow: 0, lastDataRow: (source.rows?.length ?? 1) - 1 }));
+      setActiveIndex(0);
+    }
+  }, [isOpen, sources]);
+
+  const source = sources[activeIndex];
+  const rows = source?.rows ?? [];
+  const layout = layouts[activeIndex];
+
+  const preview = useMemo(
+    () => (layout && rows.length > 0 ? buildTable(rows, layout) : null),
+    [rows, layout]
+  );
+
+  if (!isOpen || !source || !layout) {
+    return null;
+  }
+
+  const lastRow = rows.length - 1;
+
+  const updateLayout = (changes: Partial<TableLayout>) => {
+    setLayouts(prev => prev.map((current, index) => {
+      if (index !== activeIndex) return current;
+      const headerRow = Math.min(Math.max(0, changes.headerRow ?? current.headerRow), lastRow);
+      const lastDataRow = Math.min(Math.max(headerRow, changes.lastDataRow ?? current.lastDataRow), lastRow);
+      return { headerRow, lastDataRow };
+    }));
+  };
+
+  const topEnd = Math.min(lastRow, layout.headerRow + PREVIEW_TOP_ROWS);
+  const bottomStart = Math.max(topEnd + 1, Math.min(layout.lastDataRow - 2, lastRow - PREVIEW_BOTTOM_ROWS + 1));
+  const topRows = Array.from({ length: topEnd + 1 }, (_, index) => index);
+  const bottomEnd = Math.min(lastRow, bottomStart + PREVIEW_BOTTOM_ROWS * 2);
+  const bottomRows = bottomStart <= bottomEnd
+    ? Array.from({ length: bottomEnd - bottomStart + 1 }, (_, index) => bottomStart + index)
+    : [];
+  const columnCount = Math.min(PREVIEW_COLUMNS, Math.max(1, ...rows.slice(0, topEnd + 1).map(row => row.length)));
+
+  const rowClass = (index: number): string => {
+    if (index === layout.headerRow) return 'bg-green-100 font-semibold text-gray-900';
+    if (index < layout.headerRow || index > layout.lastDataRow) return 'text-gray-400 line-through';
+    return 'text-gray-700';
+  };
+
+  const renderRow = (index: number, action: 'header' | 'end') => (
+    <tr key={index} className={`border-b border-gray-100 ${rowClass(index)}`}>
+      <td className="px-2 py-1 text-right text-xs text-gray-400 whitespace-nowrap">{index + 1}</td>
+      <td className="px-2 py-1 whitespace-nowrap">
+        {action === 'header' ? (
+          <button
+            onClick={() => updateLayout({ headerRow: index })}
+            className="text-xs font-semibold text-primary hover:underline"
+            disabled={index === layout.headerRow}
+          >
+            {index === layout.headerRow ? 'Cabecera' : 'Usar como cabecera'}
+          </button>
+        ) : (
+          <button
+            onClick={() => updateLayout({ lastDataRow: index })}
+            className="text-xs font-semibold text-primary hover:underline"
+            disabled={index === layout.lastDataRow || index < layout.headerRow}
+          >
+            {index === layout.lastDataRow ? 'Última fila' : 'Terminar aquí'}
+          </button>
+        )}
+      </td>
+      {Array.from({ length: columnCount }, (_, column) => (
+        <td key={column} className="px-2 py-1 max-w-[10rem] truncate" title={formatCell(rows[index]?.[column])}>
+          {formatCell(rows[index]?.[column])}
+        </td>
+      ))}
+    </tr>
+  );
+
+  const renderGap = (hiddenRows: number) => (
+    <tr>
+      <td colSpan={columnCount + 2} className="px-2 py-1 text-center text-xs text-gray-400 bg-gray-50">
+        … {hiddenRows} filas más …
+      </td>
+    </tr>
+  );
+
+  const btnBase = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none";
+  const btnPrimary = `${btnBase} bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary`;
+  const btnSecondary = `${btnBase} bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 focus-visible:ring-primary`;
+  const inputClass = "w-24 px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm";
+  const includeFileName = new Set(sources.map(s => s.fileName)).size > 1;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-5xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="table-layout-modal-title"
+      >
+        <h2 id="table-layout-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Dónde Empieza y Acaba el Censo</h2>
+        <p className="text-secondary-light mb-4">
+          El archivo tiene títulos, líneas en blanco o totales alrededor de los datos. Revisa la fila de cabecera y la última fila antes de importar; las filas tachadas no se importarán.
+        </p>
+
+        {sources.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {sources.map((s, index) => (
+              <button
+                key={index}
+                onClick={() => setActiveIndex(index)}
+                className={`px-3 py-1 rounded-full text-sm border ${index === activeIndex ? 'bg-primary text-white border-primary' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+              >
+                {getSourceLabel(s, includeFileName)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+          <label className="flex items-center gap-2 font-medium text-gray-700">
+            Fila de cabecera
+            <input
+              type="number"
+              min={1}
+              max={rows.length}
+              value={layout.headerRow + 1}
+              onChange={(e) => updateLayout({ headerRow: Number(e.target.value) - 1 })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 font-medium text-gray-700">
+            Última fila de datos
+            <input
+              type="number"
+              min={layout.headerRow + 1}
+              max={rows.length}
+              value={layout.lastDataRow + 1}
+              onChange={(e) => updateLayout({ lastDataRow: Number(e.target.value) - 1 })}
+              className={inputClass}
+            />
+          </label>
+          {preview && (
+            <span className="text-gray-600">
+              Se importarán <span className="font-semibold">{preview.data.length}</span> filas con {preview.headers.length} columnas.
+            </span>
+          )}
+        </div>
+
+        <div className="flex-grow overflow-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <tbody>
+              {topRows.map(index => renderRow(index, 'header'))}
+              {bottomStart > topEnd + 1 && renderGap(bottomStart - topEnd - 1)}
+              {bottomRows.map(index => renderRow(index, 'end'))}
+              {bottomEnd < lastRow && renderGap(lastRow - bottomEnd)}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-3 flex-shrink-0">
+          <button onClick={onCancel} className={btnSecondary}>Cancelar</button>
+          <button
+            onClick={() => onConfirm(sources.map((s, index) => applyTableLayout(s, layouts[index])))}
+            className={btnPrimary}
+            disabled={!preview || preview.data.length === 0}
+          >
+            Continuar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
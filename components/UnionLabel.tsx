@@ -0,0 +1,22 @@
+import React from 'react';
+import type { UnionDefinition } from '../types';
+import { UNION_KIND_LABELS } from '../services/unionRegistry';
+
+interface UnionLabelProps {
+  union: UnionDefinition;
+  showName?: boolean;
+  className?: string;
+}
+
+// Siglas de un sindicato con su color (o su logotipo) y, opcionalmente, el nombre completo.
+export const UnionLabel: React.FC<UnionLabelProps> = ({ union, showName = false, className = '' }) => (
+  <span className={`inline-flex items-center gap-1.5 ${className}`} title={`${union.name} · ${UNION_KIND_LABELS[union.kind]}`}>
+    {union.logo ? (
+      <img src={union.logo} alt="" className="w-5 h-5 object-contain" />
+    ) : (
+      <span className="inline-block w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: union.color }} aria-hidden="true" />
+    )}
+    <span>{union.acronym}</span>
+    {showName && union.name !== union.acronym && <span className="font-normal text-gray-500">{union.name}</span>}
+  </span>
+);
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import type { UnionDefinition } from '../types';
+import { UNION_KIND_LABELS, MAX_LOGO_BYTES, validateUnionAcronym, countUnionMarks } from '../services/unionRegistry';
+
+interface UnionRegistryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  registry: UnionDefinition[];
+  checkedState: Record<number, Record<string, boolean>>;
+  onAdd: (union: UnionDefinition) => void;
+  onUpdate: (acronym: string, changes: Partial<Omit<UnionDefinition, 'acronym'>>) => void;
+  onRename: (from: string, to: string) => void;
+  onMerge: (from: string, into: string) => void;
+  onRemove: (acronym: string) => void;
+}
+
+const EMPTY_UNION: UnionDefinition = { acronym: '', name: '', kind: 'sindicato', color: '#a7f3d0' };
+
+const KINDS = Object.keys(UNION_KIND_LABELS) as UnionDefinition['kind'][];
+
+export const UnionRegistryModal: React.FC<UnionRegistryModalProps> = ({
+  isOpen, onClose, registry, checkedState, onAdd, onUpdate, onRename, onMerge, onRemove,
+}) => {
+  const [newUnion, setNewUnion] = useState<UnionDefinition>(EMPTY_UNION);
+  const [acronymDrafts, setAcronymDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setNewUnion(EMPTY_UNION);
+      setAcronymDrafts({});
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateUnionAcronym(registry, newUnion.acronym);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const acronym = newUnion.acronym.trim();
+    onAdd({ ...newUnion, acronym, name: newUnion.name.trim() || acronym });
+    setNewUnion(EMPTY_UNION);
+    setError(null);
+  };
+
+  const handleRename = (union: UnionDefinition) => {
+    const draft = (acronymDrafts[union.acronym] ?? union.acronym).trim();
+    const problem = validateUnionAcronym(registry, draft, union.acronym);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onRename(union.acronym, draft);
+    setAcronymDrafts(prev => {
+      const next = { ...prev };
+      delete next[union.acronym];
+      return next;
+    });
+    setError(null);
+  };
+
+  const handleMerge = (from: string, into: string) => {
+    if (!into) return;
+    if (window.confirm(`¿Fusionar ${from} en ${into}? Las marcas, listas y votos de ${from} pasarán a ${into} y ${from} desaparecerá.`)) {
+      onMerge(from, into);
+    }
+  };
+
+  const handleRemove = (union: UnionDefinition) => {
+    const marks = countUnionMarks(checkedState, union.acronym);
+    const message = marks > 0
+      ? `¿Eliminar ${union.acronym}? Se borrarán sus ${marks} marcas, su orden de lista y sus votos.`
+      : `¿Eliminar ${union.acronym}?`;
+    if (window.confirm(message)) {
+      onRemove(union.acronym);
+    }
+  };
+
+  const handleLogoChange = (acronym: string, file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`El logotipo no puede superar ${Math.round(MAX_LOGO_BYTES / 1024)} KB.`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => onUpdate(acronym, { logo: String(reader.result) });
+    reader.onerror = () => setError('No se pudo leer el logotipo.');
+    reader.readAsDataURL(file);
+  };
+
+  // Button and field classes for professional styling
+  const btnPrimary = "font-bold py-2 px-4 rounded-md transition-all duration-200 ease-in-out shadow-sm transform hover:-translate-y-px hover:shadow-lg text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 bg-primary hover:bg-primary-dark text-white border border-transparent focus-visible:ring-primary";
+  const inputClass = "w-full px-2 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-sm";
+  const linkClass = "text-xs font-semibold text-primary hover:underline whitespace-nowrap";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4 transition-opacity duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="union-registry-modal-title"
+      >
+        <h2 id="union-registry-modal-title" className="text-2xl font-bold mb-2 text-gray-800">Sindicatos y Agrupaciones</h2>
+        <p className="text-secondary-light mb-4">
+          Las siglas identifican las marcas, las listas y los votos. Al renombrar o fusionar, todo lo registrado se traslada a las nuevas siglas.
+        </p>
+        {error && <p className="mb-3 text-sm text-red-600 bg-red-100 p-2 rounded-lg">{error}</p>}
+
+        <div className="flex-grow overflow-y-auto border-t border-gray-200 -mx-6 px-6 divide-y divide-gray-100">
+          {registry.map(union => {
+            const draft = acronymDrafts[union.acronym] ?? union.acronym;
+            return (
+              <div key={union.acronym} className="py-3 grid grid-cols-1 sm:grid-cols-[auto_8rem_1fr_11rem] gap-3 items-start">
+                <div className="flex flex-col items-center gap-1">
+                  <input
+                    type="color"
+                    value={union.color}
+                    onChange={(e) => onUpdate(union.acronym, { color: e.target.value })}
+                    className="w-10 h-10 rounded cursor-pointer border border-gray-300"
+                    title="Color"
+                  />
+                  {union.logo ? (
+                    <img src={union.logo} alt={`Logotipo de ${union.acronym}`} className="w-10 h-10 object-contain" />
+                  ) : (
+                    <span className="text-[10px] text-gray-400">Sin logo</span>
+                  )}
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-600">
+                    Siglas
+                    <input
+                      type="text"
+                      value={draft}
+                      onChange={(e) => setAcronymDrafts(prev => ({ ...prev, [union.acronym]: e.target.value }))}
+                      className={`${inputClass} mt-1 font-semibold`}
+                    />
+                  </label>
+                  {draft.trim() !== union.acronym && (
+                    <button onClick={() => handleRename(union)} className={`${linkClass} mt-1`}>Renombrar</button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-xs font-medium text-gray-600">
+                    Nombre completo
+                    <input
+                      type="text"
+                      value={union.name}
+                      onChange={(e) => onUpdate(union.acronym, { name: e.target.value })}
+                      className={`${inputClass} mt-1`}
+                    />
+                  </label>
+                  <select
+                    value={union.kind}
+                    onChange={(e) => onUpdate(union.acronym, { kind: e.target.value as UnionDefinition['kind'] })}
+                    className={inputClass}
+                  >
+                    {KINDS.map(kind => <option key={kind} value={kind}>{UNION_KIND_LABELS[kind]}</option>)}
+                  </select>
+                </div>
+                <div className="flex flex-col items-start gap-1.5">
+                  <label className={`${linkClass} cursor-pointer`}>
+                    {union.logo ? 'Cambiar logotipo' : 'Subir logotipo'}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => { handleLogoChange(union.acronym, e.target.files?.[0]); e.target.value = ''; }}
+                    />
+                  </label>
+                  {union.logo && (
+                    <button onClick={() => onUpdate(union.acronym, { logo: undefined })} className={linkClass}>Quitar logotipo</button>
+                  )}
+                  <select
+                    value=""
+                    onChange={(e) => handleMerge(union.acronym, e.target.value)}
+                    className={inputClass}
+                    disabled={registry.length < 2}
+                  >
+                    <option value="">Fusionar en…</option>
+                    {registry.filter(other => other.acronym !== union.acronym).map(other => (
+                      <option key={other.acronym} value={other.acronym}>{other.acronym}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => handleRemove(union)} className="text-xs font-semibold text-red-600 hover:underline">Eliminar</button>
+                </div>
+              </div>
+            );
+          })}
+          {registry.length === 0 && (
+            <p className="py-4 text-sm text-gray-500">No hay sindicatos. Añade al menos uno para poder marcar candidatos.</p>
+          )}
+        </div>
+
+        <form onSubmit={handleAdd} className="mt-4 pt-4 border-t border-gray-200 grid grid-cols-1 sm:grid-cols-[auto_8rem_1fr_11rem_auto] gap-3 items-end">
+          <input
+            type="color"
+            value={newUnion.color}
+            onChange={(e) => setNewUnion(prev => ({ ...prev, color: e.target.value }))}
+            className="w-10 h-10 rounded cursor-pointer border border-gray-300"
+            title="Color"
+          />
+          <label className="text-xs font-medium text-gray-600">
+            Siglas
+            <input
+              type="text"
+              value={newUnion.acronym}
+              onChange={(e) => setNewUnion(prev => ({ ...prev, acronym: e.target.value }))}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-600">
+            Nombre completo
+            <input
+              type="text"
+              value={newUnion.name}
+              onChange={(e) => setNewUnion(prev => ({ ...prev, name: e.target.value }))}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <select
+            value={newUnion.kind}
+            onChange={(e) => setNewUnion(prev => ({ ...prev, kind: e.target.value as UnionDefinition['kind'] }))}
+            className={inputClass}
+          >
+            {KINDS.map(kind => <option key={kind} value={kind}>{UNION_KIND_LABELS[kind]}</option>)}
+          </select>
+          <button type="submit" className={btnPrimary}>Añadir</button>
+        </form>
+
+        <div className="mt-6 flex justify-end border-t border-gray-200 pt-4">
+          <button onClick={onClose} className={btnPrimary}>
+            Cerrar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import type { ParsedSource } from './fileParser';
+import type { CsvFormat } from './csvFormat';
+
+// Avance de la lectura de los archivos que se importan.
+export interface ParseProgress {
+  fileName: string;
+  rowsRead: number;
+  percent: number;
+}
+
+// Un CSV que se vuelve a leer con la codificación o los separadores elegidos por el usuario.
+export interface CsvReparse {
+  fileName: string;
+  bytes: Uint8Array;
+  format: CsvFormat;
+}
+
+// Lo que se pide al worker: leer archivos nuevos o volver a leer CSV ya cargados.
+export type ParseWorkerRequest =
+  | { type: 'files'; files: File[] }
+  | { type: 'csv'; items: CsvReparse[] };
+
+// Mensajes que el worker envía mientras lee los archivos.
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; sources: ParsedSource[] }
+  | { type: 'error'; message: string };
+
+// Una lectura en marcha: `result` se resuelve con `null` si se cancela.
+export interface ParseTask {
+  result: Promise<ParsedSource[] | null>;
+  cancel: () => void;
+}
+
+const runInWorker = (request: ParseWorkerRequest, onProgress: (progress: ParseProgress) => void): ParseTask => {
+  const worker = new Worker(new URL('./fileParser.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (sources: ParsedSource[] | null) => void = () => {};
+
+  const result = new Promise<ParsedSource[] | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<ParseWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.sources);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(`Error al leer el archivo: ${event.message || 'error desconocido'}`));
+    };
+  });
+
+  worker.postMessage(request);
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
+
+/**
+ * Lee y normaliza los archivos en un Web Worker, para que el censo de todo un grupo
+ * (decenas de miles de filas) no bloquee la pestaña mientras se procesa.
+ * @param files Los archivos que se importan.
+ * @param onProgress Recibe el archivo en curso, las filas leídas y el porcentaje del total.
+ * @returns La lectura en marcha, que se puede cancelar.
+ */
+export const parseFilesInBackground = (files: File[], onProgress: (progress: ParseProgress) => void): ParseTask =>
+  runInWorker({ type: 'files', files }, onProgress);
+
+/**
+ * Vuelve a leer en el Web Worker los CSV cuyo formato ha cambiado el usuario.
+ * @returns La lectura en marcha, con una fuente por CSV en el mismo orden.
+ */
+export const reparseCsvInBackground = (items: CsvReparse[], onProgress: (progress: ParseProgress) => void): ParseTask =>
+  runInWorker({ type: 'csv', items }, onProgress);
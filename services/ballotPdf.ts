@@ -0,0 +1,161 @@
+import jsPDF from 'jspdf';
+import type { TableRow } from '../types';
+import type { CandidateList } from './candidateLists';
+import { getCandidateLabel } from './candidateIdentity';
+
+export type BallotPaperSize = 'a4' | 'a5' | 'a6';
+
+export interface BallotLayout {
+  paperSize: BallotPaperSize;
+  orientation: 'portrait' | 'landscape';
+  // Papeletas por hoja; con más de una se dibujan líneas de corte
+  perPage: 1 | 2 | 4;
+  fontSize: number;
+  includeSubstitutes: boolean;
+}
+
+export const DEFAULT_BALLOT_LAYOUT: BallotLayout = {
+  paperSize: 'a4',
+  orientation: 'portrait',
+  perPage: 2,
+  fontSize: 12,
+  includeSubstitutes: true,
+};
+
+const MIN_FONT_SIZE = 6;
+const CELL_PADDING = 10;
+const LINE_HEIGHT_FACTOR = 0.5; // mm por punto de fuente, con interlineado
+
+// Formatear fecha para mostrarla amigablemente
+const formatDisplayDate = (dateString: string) => {
+  if (!dateString) return '';
+  const [year, month, day] = dateString.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+// Reparte la hoja en celdas iguales: 2 papeletas se apilan en el lado largo, 4 van en rejilla.
+const getCells = (pageWidth: number, pageHeight: number, perPage: BallotLayout['perPage']) => {
+  const columns = perPage === 4 || (perPage === 2 && pageWidth > pageHeight) ? 2 : 1;
+  const rows = perPage / columns;
+  const width = pageWidth / columns;
+  const height = pageHeight / rows;
+  return Array.from({ length: perPage }, (_, index) => ({
+    x: (index % columns) * width,
+    y: Math.floor(index / columns) * height,
+    width,
+    height,
+  }));
+};
+
+const drawBallot = (
+  doc: jsPDF,
+  cell: { x: number; y: number; width: number; height: number },
+  list: CandidateList,
+  data: TableRow[],
+  layout: BallotLayout,
+  votingDate: string,
+) => {
+  const centerX = cell.x + cell.width / 2;
+  const titulares = list.titulares.map(rowIndex => getCandidateLabel(data[rowIndex]));
+  const suplentes = layout.includeSubstitutes ? list.suplentes.map(rowIndex => getCandidateLabel(data[rowIndex])) : [];
+
+  const textX = cell.x + CELL_PADDING + 4;
+  const maxWidth = cell.width - CELL_PADDING * 2 - 4;
+
+  // Parte cada nombre numerado en las líneas que ocupa con ese tamaño de letra
+  const wrapNames = (names: string[], size: number): string[][] => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(size);
+    return names.map((name, index) => doc.splitTextToSize(`${index + 1}. ${name}`, maxWidth) as string[]);
+  };
+  const countLines = (entries: string[][]) => entries.reduce((sum, lines) => sum + lines.length, 0);
+  const wrapList = (size: number) => {
+    const wrappedTitulares = wrapNames(titulares, size);
+    const wrappedSuplentes = wrapNames(suplentes, size);
+    const lineCount = countLines(wrappedTitulares) + (suplentes.length > 0 ? countLines(wrappedSuplentes) + 2 : 0);
+    return { wrappedTitulares, wrappedSuplentes, height: lineCount * size * LINE_HEIGHT_FACTOR };
+  };
+
+  // Se reduce la letra hasta que la lista completa, con los nombres largos partidos en varias líneas, cabe en la papeleta
+  const headerHeight = 34;
+  const available = cell.height - headerHeight - CELL_PADDING * 2;
+  let fontSize = layout.fontSize;
+  let wrapped = wrapList(fontSize);
+  while (fontSize > MIN_FONT_SIZE && wrapped.height > available) {
+    fontSize--;
+    wrapped = wrapList(fontSize);
+  }
+  const lineHeight = fontSize * LINE_HEIGHT_FACTOR;
+
+  let y = cell.y + CELL_PADDING + 4;
+  doc.setTextColor(100);
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Elecciones Sindicales${votingDate ? ` · ${formatDisplayDate(votingDate)}` : ''}`, centerX, y, { align: 'center' });
+  y += 5;
+  doc.text(list.unit.label, centerX, y, { align: 'center', maxWidth: cell.width - CELL_PADDING * 2 });
+  y += 10;
+
+  doc.setTextColor(20);
+  doc.setFontSize(Math.max(fontSize + 8, 16));
+  doc.setFont('helvetica', 'bold');
+  doc.text(list.union, centerX, y, { align: 'center' });
+  y += 5;
+  doc.setLineWidth(0.4);
+  doc.line(cell.x + CELL_PADDING, y, cell.x + cell.width - CELL_PADDING, y);
+  y += lineHeight + 2;
+
+  const drawNames = (entries: string[][]) => {
+    entries.forEach(lines => lines.forEach(line => {
+      doc.text(line, textX, y);
+      y += lineHeight;
+    }));
+  };
+
+  doc.setFontSize(fontSize);
+  doc.setFont('helvetica', 'normal');
+  drawNames(wrapped.wrappedTitulares);
+  if (suplentes.length > 0) {
+    y += lineHeight / 2;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Suplentes', textX, y);
+    doc.setFont('helvetica', 'normal');
+    y += lineHeight;
+    drawNames(wrapped.wrappedSuplentes);
+  }
+};
+
+/**
+ * Genera las papeletas de votación: una por lista de cada sindicato en cada centro (y colegio).
+ * @param lists Las listas de candidatos, ya ordenadas.
+ * @param data Las filas del censo.
+ * @param layout El tamaño y la disposición de las papeletas.
+ * @param votingDate La fecha de votación (YYYY-MM-DD), que se imprime en la cabecera.
+ */
+export const buildBallotsPdf = (
+  lists: CandidateList[],
+  data: TableRow[],
+  layout: BallotLayout,
+  votingDate: string,
+): jsPDF => {
+  const doc = new jsPDF({ orientation: layout.orientation, format: layout.paperSize });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const cells = getCells(pageWidth, pageHeight, layout.perPage);
+
+  lists.forEach((list, index) => {
+    const cellIndex = index % cells.length;
+    if (index > 0 && cellIndex === 0) doc.addPage();
+    const cell = cells[cellIndex];
+    if (cells.length > 1) {
+      // Líneas de corte discontinuas alrededor de cada papeleta
+      doc.setDrawColor(180);
+      doc.setLineDashPattern([2, 2], 0);
+      doc.rect(cell.x + 2, cell.y + 2, cell.width - 4, cell.height - 4);
+      doc.setLineDashPattern([], 0);
+      doc.setDrawColor(0);
+    }
+    drawBallot(doc, cell, list, data, layout, votingDate);
+  });
+  return doc;
+};
@@ -0,0 +1,291 @@
+import type { TableRow, IdentityRule, CandidateDuplicate, PossibleDuplicate, PairDecision } from '../types';
+import type { DataQualityIssue } from './idValidation';
+import { findIdColumn } from './idValidation';
+import { scoreNameSimilarity } from './fuzzyNameMatching';
+
+type CheckedState = Record<number, Record<string, boolean>>;
+
+export const DEFAULT_IDENTITY_RULE: IdentityRule = { mode: 'name', columns: [], fuzzy: false, fuzzyThreshold: 0.85 };
+
+export interface DuplicatesReport {
+  groupedByUnion: Record<string, CandidateDuplicate[]>;
+  invalidIdCandidates: CandidateDuplicate[];
+  possibleDuplicates: PossibleDuplicate[];
+}
+
+type MarkedCandidate = { unions: Set<string>, row: TableRow, rowIndexes: number[] };
+
+/**
+ * Normaliza un valor para compararlo: sin tildes, en minúsculas y con los espacios y signos unificados.
+ * @param value El valor a normalizar.
+ * @returns El texto normalizado.
+ */
+export const normalizeIdentityPart = (value: unknown): string =>
+  String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Devuelve las columnas de nombre del censo, con los apellidos primero para que el resultado sea ordenable.
+ * @param headers Las cabeceras del censo.
+ */
+export const findNameColumns = (headers: string[]): string[] => {
+  const surnameKeys = headers.filter(k => /apellido/i.test(k)).sort();
+  const nameKeys = headers.filter(k => /nombre|name|candidato/i.test(k) && !/apellido/i.test(k)).sort();
+  return [...surnameKeys, ...nameKeys];
+};
+
+/**
+ * Nombre legible y ordenable de un candidato: apellidos y nombre, o en su defecto el DNI o la primera columna.
+ * @param row La fila del censo.
+ */
+export const getCandidateLabel = (row: TableRow): string => {
+  const keys = Object.keys(row);
+  const fullName = findNameColumns(keys).map(k => String(row[k] ?? '')).join(' ').trim();
+  if (fullName) {
+    return fullName;
+  }
+
+  const dniKey = findIdColumn(keys);
+  if (dniKey && row[dniKey]) {
+    return String(row[dniKey]);
+  }
+
+  // Fallback final a la primera columna con valor
+  return String(Object.values(row).find(v => v) ?? 'Candidato Desconocido');
+};
+
+export const normalizeIdentifier = (value: unknown): string =>
+  String(value ?? '').toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+/**
+ * Crea la función que calcula la clave de identidad de cada fila según la regla configurada.
+ * Dos filas con la misma clave se consideran la misma persona en toda la aplicación.
+ * @param rule La regla de identidad del proyecto.
+ * @param headers Las cabeceras del censo.
+ * @returns Una función que devuelve la clave de una fila, o `null` si la fila no permite identificarla.
+ */
+export const createIdentityResolver = (rule: IdentityRule, headers: string[]): ((row: TableRow) => string | null) => {
+  const nameColumns = findNameColumns(headers);
+  const byName = (row: TableRow): string | null => {
+    const name = nameColumns.map(c => normalizeIdentityPart(row[c])).filter(Boolean).join(' ');
+    return name ? `name:${name}` : null;
+  };
+
+  if (rule.mode === 'dni') {
+    const idColumn = findIdColumn(headers);
+    return (row) => {
+      const id = idColumn ? normalizeIdentifier(row[idColumn]) : '';
+      return id ? `id:${id}` : byName(row);
+    };
+  }
+
+  if (rule.mode === 'columns') {
+    const columns = rule.columns.filter(c => headers.includes(c));
+    if (columns.length === 0) return byName;
+    return (row) => {
+      const parts = columns.map(c => normalizeIdentityPart(row[c]));
+      return parts.some(Boolean) ? `cols:${parts.join('|')}` : null;
+    };
+  }
+
+  return byName;
+};
+
+/**
+ * Describe la regla de identidad en lenguaje natural, para los informes.
+ */
+export const describeIdentityRule = (rule: IdentityRule): string => {
+  const fuzzySuffix = rule.fuzzy
+    ? ` + coincidencia aproximada de nombres (≥ ${Math.round((rule.fuzzyThreshold ?? 0.85) * 100)}%)`
+    : '';
+  switch (rule.mode) {
+    case 'dni':
+      return `DNI/NIF (o nombre si no consta)${fuzzySuffix}`;
+    case 'columns':
+      return `${rule.columns.length > 0 ? `Columnas: ${rule.columns.join(', ')}` : 'Apellidos y nombre'}${fuzzySuffix}`;
+    default:
+      return `Apellidos y nombre${fuzzySuffix}`;
+  }
+};
+
+// Clave estable de un par de personas, independiente del orden en que se comparen.
+const getPairKey = (keyA: string, keyB: string): string => [keyA, keyB].sort().join('#');
+
+/**
+ * Agrupa a los candidatos marcados por persona, según la regla de identidad.
+ */
+const groupMarkedCandidates = (
+  data: TableRow[],
+  checkedState: CheckedState,
+  unions: string[],
+  resolveIdentity: (row: TableRow) => string | null,
+) => {
+  const candidatesMap: Map<string, MarkedCandidate> = new Map();
+  data.forEach((row, rowIndex) => {
+    const checkedUnionsForRow = unions.filter(union => checkedState[rowIndex]?.[union]);
+    if (checkedUnionsForRow.length === 0) return;
+
+    // Filas sin datos identificativos se tratan como personas distintas
+    const key = resolveIdentity(row) ?? `row:${rowIndex}`;
+    if (!candidatesMap.has(key)) {
+      candidatesMap.set(key, { unions: new Set(), row, rowIndexes: [] });
+    }
+    const candidate = candidatesMap.get(key)!;
+    checkedUnionsForRow.forEach(union => candidate.unions.add(union));
+    candidate.rowIndexes.push(rowIndex);
+  });
+  return candidatesMap;
+};
+
+/**
+ * Compara por nombre cada par de personas marcadas y devuelve las que podrían ser la misma,
+ * siempre que entre las dos figuren en más de un sindicato. Las personas marcadas son pocas,
+ * así que la comparación de todos con todos es asumible.
+ */
+const findPossibleDuplicates = (
+  candidatesMap: Map<string, MarkedCandidate>,
+  threshold: number,
+  pairDecisions: Record<string, PairDecision>,
+): PossibleDuplicate[] => {
+  const candidates = Array.from(candidatesMap.entries()).map(([key, candidate]) => ({
+    key,
+    identifier: getCandidateLabel(candidate.row),
+    unions: Array.from(candidate.unions).sort(),
+  }));
+
+  const possibleDuplicates: PossibleDuplicate[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const first = candidates[i];
+      const second = candidates[j];
+      if (new Set([...first.unions, ...second.unions]).size < 2) continue;
+
+      const score = scoreNameSimilarity(first.identifier, second.identifier);
+      if (score < threshold) continue;
+
+      const pairKey = getPairKey(first.key, second.key);
+      possibleDuplicates.push({
+        pairKey,
+        score,
+        first: { identifier: first.identifier, unions: first.unions },
+        second: { identifier: second.identifier, unions: second.unions },
+        decision: pairDecisions[pairKey],
+      });
+    }
+  }
+  return possibleDuplicates.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Busca los candidatos marcados en más de un sindicato y los agrupa por sindicato.
+ * Es la única implementación de la detección de duplicados: la usan el modal, el informe y las exportaciones.
+ * @param data Las filas del censo.
+ * @param checkedState Las marcas de cada fila.
+ * @param unions Los sindicatos a tener en cuenta.
+ * @param rule La regla de identidad del proyecto.
+ * @param headers Las cabeceras del censo.
+ * @param idIssues Las incidencias de identificador por fila, para señalar DNI no válidos.
+ * @param pairDecisions Los posibles duplicados ya confirmados o descartados por el usuario.
+ */
+export const findDuplicateCandidates = (
+  data: TableRow[],
+  checkedState: CheckedState,
+  unions: string[],
+  rule: IdentityRule,
+  headers: string[],
+  idIssues: Map<number, DataQualityIssue>,
+  pairDecisions: Record<string, PairDecision> = {},
+): DuplicatesReport => {
+  // 1. Map all candidates to the unions they are checked for.
+  const candidatesMap = groupMarkedCandidates(data, checkedState, unions, createIdentityResolver(rule, headers));
+
+  const getInvalidIdMessage = (rowIndexes: number[]): string | undefined => {
+    const issue = rowIndexes.map(i => idIssues.get(i)).find(Boolean);
+    return issue ? `${issue.value || 'Sin identificador'}: ${issue.message}` : undefined;
+  };
+
+  // 2. Filter down to only those candidates who are in more than one union.
+  const actualDuplicates = Array.from(candidatesMap.values())
+    .filter(candidate => candidate.unions.size > 1)
+    .map(candidate => ({
+      identifier: getCandidateLabel(candidate.row),
+      unions: Array.from(candidate.unions).sort(),
+      row: candidate.row,
+      invalidIdMessage: getInvalidIdMessage(candidate.rowIndexes),
+    }));
+
+  // 3. Group these duplicates by each union they are part of.
+  const groupedByUnion: Record<string, CandidateDuplicate[]> = {};
+  unions.forEach(union => {
+    const candidatesInThisUnion = actualDuplicates
+      .filter(dup => dup.unions.includes(union))
+      .map(dup => ({
+        identifier: dup.identifier,
+        otherUnions: dup.unions.filter(u => u !== union),
+        row: dup.row,
+        invalidIdMessage: dup.invalidIdMessage,
+      }));
+
+    if (candidatesInThisUnion.length > 0) {
+      // Sort candidates alphabetically within this union's list
+      candidatesInThisUnion.sort((a, b) => a.identifier.localeCompare(b.identifier));
+      groupedByUnion[union] = candidatesInThisUnion;
+    }
+  });
+
+  // 4. Candidates with an invalid identifier, which may be hiding a duplicate behind a typo.
+  const invalidIdCandidates = Array.from(candidatesMap.values())
+    .map(candidate => ({
+      identifier: getCandidateLabel(candidate.row),
+      otherUnions: Array.from(candidate.unions).sort(),
+      row: candidate.row,
+      invalidIdMessage: getInvalidIdMessage(candidate.rowIndexes),
+    }))
+    .filter(candidate => candidate.invalidIdMessage)
+    .sort((a, b) => a.identifier.localeCompare(b.identifier));
+
+  // 5. Similar names that are not an exact match, when fuzzy matching is enabled.
+  const possibleDuplicates = rule.fuzzy
+    ? findPossibleDuplicates(candidatesMap, rule.fuzzyThreshold ?? 0.85, pairDecisions)
+    : [];
+
+  return { groupedByUnion, invalidIdCandidates, possibleDuplicates };
+};
+
+/**
+ * Devuelve los índices de las filas cuya persona está marcada en más de un sindicato.
+ * Se usa para el filtro `duplicado:` de la búsqueda y la columna de duplicados de las exportaciones.
+ */
+export const findDuplicateRowIndexes = (
+  data: TableRow[],
+  checkedState: CheckedState,
+  unions: string[],
+  rule: IdentityRule,
+  headers: string[],
+  pairDecisions: Record<string, PairDecision> = {},
+): Set<number> => {
+  const candidatesMap = groupMarkedCandidates(data, checkedState, unions, createIdentityResolver(rule, headers));
+  const rowIndexes = new Set<number>();
+  candidatesMap.forEach(candidate => {
+    if (candidate.unions.size > 1) {
+      candidate.rowIndexes.forEach(i => rowIndexes.add(i));
+    }
+  });
+
+  // Los posibles duplicados confirmados por el usuario cuentan como duplicados
+  Object.entries(pairDecisions)
+    .filter(([, decision]) => decision === 'confirmed')
+    .forEach(([pairKey]) => {
+      const [keyA, keyB] = pairKey.split('#');
+      const first = candidatesMap.get(keyA);
+      const second = candidatesMap.get(keyB);
+      if (first && second && new Set([...first.unions, ...second.unions]).size > 1) {
+        [...first.rowIndexes, ...second.rowIndexes].forEach(i => rowIndexes.add(i));
+      }
+    });
+  return rowIndexes;
+};
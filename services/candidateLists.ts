@@ -0,0 +1,153 @@
+import type { TableRow, CollegeMapping } from '../types';
+import type { ElectoralUnit } from './electionResults';
+import { findWorkcenterColumn, getWorkcenter } from './seatCalculation';
+import { getCollege } from './electoralColleges';
+
+type CheckedState = Record<number, Record<string, boolean>>;
+
+// La lista de un sindicato en una unidad electoral: titulares y suplentes, cada uno en su orden.
+export interface CandidateList {
+  union: string;
+  unit: ElectoralUnit;
+  titulares: number[];
+  suplentes: number[];
+  // Menos titulares que puestos a cubrir
+  isShort: boolean;
+}
+
+// Filas del censo agrupadas por centro y por centro y colegio, en el orden del censo.
+export interface RowsByUnit {
+  byWorkcenter: Map<string, number[]>;
+  byCollege: Map<string, number[]>;
+}
+
+const getCollegeGroupKey = (workcenter: string, college: string) => `${workcenter}\u0000${college}`;
+
+const addRow = (groups: Map<string, number[]>, key: string, rowIndex: number) => {
+  const rows = groups.get(key);
+  if (rows) rows.push(rowIndex);
+  else groups.set(key, [rowIndex]);
+};
+
+/**
+ * Agrupa las filas del censo por unidad electoral una sola vez, para que al marcar un candidato
+ * las listas se recalculen recorriendo solo las filas de cada unidad y no todo el censo.
+ */
+export const groupRowsByUnit = (headers: string[], data: TableRow[], collegeMapping: CollegeMapping | undefined): RowsByUnit => {
+  const workcenterColumn = findWorkcenterColumn(headers);
+  const groups: RowsByUnit = { byWorkcenter: new Map(), byCollege: new Map() };
+  data.forEach((row, rowIndex) => {
+    const workcenter = getWorkcenter(row, workcenterColumn);
+    addRow(groups.byWorkcenter, workcenter, rowIndex);
+    const college = getCollege(row, collegeMapping);
+    if (college) addRow(groups.byCollege, getCollegeGroupKey(workcenter, college), rowIndex);
+  });
+  return groups;
+};
+
+// Filas que pertenecen a una unidad electoral: su centro entero o solo su colegio.
+export const getUnitRows = (groups: RowsByUnit, unit: ElectoralUnit): number[] =>
+  (unit.college === null
+    ? groups.byWorkcenter.get(unit.workcenter)
+    : groups.byCollege.get(getCollegeGroupKey(unit.workcenter, unit.college))) ?? [];
+
+/**
+ * Devuelve los candidatos de un sindicato en una unidad electoral, en el orden fijado por el usuario.
+ * Los titulares van siempre delante de los suplentes. Los candidatos que aún no están en el orden
+ * guardado van al final de su grupo, en el orden del censo.
+ * @param unitRows Las filas de la unidad, en el orden del censo (ver `getUnitRows`).
+ * @param order El orden guardado del sindicato (índices de fila).
+ * @param substitutes Los candidatos del sindicato marcados como suplentes.
+ */
+export const getOrderedCandidates = (
+  unitRows: number[],
+  checkedState: CheckedState,
+  union: string,
+  order: number[] = [],
+  substitutes: number[] = [],
+): number[] => {
+  const candidates = unitRows.filter(rowIndex => checkedState[rowIndex]?.[union]);
+  const candidateSet = new Set(candidates);
+
+  const ordered = order.filter(rowIndex => candidateSet.has(rowIndex));
+  const inOrder = new Set(ordered);
+  candidates.forEach(rowIndex => {
+    if (!inOrder.has(rowIndex)) ordered.push(rowIndex);
+  });
+  const substituteSet = new Set(substitutes);
+  return [
+    ...ordered.filter(rowIndex => !substituteSet.has(rowIndex)),
+    ...ordered.filter(rowIndex => substituteSet.has(rowIndex)),
+  ];
+};
+
+/**
+ * Construye la lista de un sindicato en una unidad, separando titulares y suplentes.
+ */
+export const buildCandidateList = (
+  rowsByUnit: RowsByUnit,
+  checkedState: CheckedState,
+  union: string,
+  unit: ElectoralUnit,
+  order: number[] = [],
+  substitutes: number[] = [],
+): CandidateList => {
+  const ordered = getOrderedCandidates(getUnitRows(rowsByUnit, unit), checkedState, union, order, substitutes);
+  const substituteSet = new Set(substitutes);
+  const titulares = ordered.filter(rowIndex => !substituteSet.has(rowIndex));
+  const suplentes = ordered.filter(rowIndex => substituteSet.has(rowIndex));
+  return { union, unit, titulares, suplentes, isShort: titulares.length > 0 && titulares.length < unit.seats };
+};
+
+/**
+ * Construye las listas de todos los sindicatos en todas las unidades, omitiendo las vacías.
+ */
+export const buildAllCandidateLists = (
+  rowsByUnit: RowsByUnit,
+  checkedState: CheckedState,
+  unions: string[],
+  units: ElectoralUnit[],
+  candidateOrder: Record<string, number[]>,
+  substitutes: Record<string, number[]>,
+): CandidateList[] =>
+  units.flatMap(unit => unions
+    .map(union => buildCandidateList(rowsByUnit, checkedState, union, unit, candidateOrder[union], substitutes[union]))
+    .filter(list => list.titulares.length + list.suplentes.length > 0));
+
+/**
+ * Mueve un candidato dentro de su unidad y devuelve el nuevo orden del sindicato.
+ * @param unitCandidates Los candidatos de la unidad, ya ordenados.
+ * @param order El orden guardado del sindicato.
+ * @param from La posición actual del candidato dentro de la unidad.
+ * @param to La posición de destino.
+ */
+export const moveCandidate = (
+  unitCandidates: number[],
+  order: number[],
+  from: number,
+  to: number,
+): number[] => {
+  if (from === to || to < 0 || to >= unitCandidates.length) return order;
+  const reordered = [...unitCandidates];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  // Los candidatos de otras unidades conservan su orden relativo
+  const inUnit = new Set(unitCandidates);
+  return [...order.filter(rowIndex => !inUnit.has(rowIndex)), ...reordered];
+};
+
+/**
+ * Describe el puesto de un candidato en su lista, para las exportaciones: "3" o "Suplente 1".
+ * @returns Para cada fila, su puesto en cada sindicato.
+ */
+export const getListPositions = (lists: CandidateList[]): Map<number, Record<string, string>> => {
+  const positions = new Map<number, Record<string, string>>();
+  const setPosition = (rowIndex: number, union: string, label: string) => {
+    positions.set(rowIndex, { ...positions.get(rowIndex), [union]: label });
+  };
+  lists.forEach(list => {
+    list.titulares.forEach((rowIndex, index) => setPosition(rowIndex, list.union, String(index + 1)));
+    list.suplentes.forEach((rowIndex, index) => setPosition(rowIndex, list.union, `Suplente ${index + 1}`));
+  });
+  return positions;
+};
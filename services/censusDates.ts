@@ -0,0 +1,13 @@
+/**
+ * Completa un año escrito con dos cifras. Las fechas del censo (nacimiento, antigüedad) nunca son
+ * futuras, así que se toma el siglo actual salvo que el año quede por delante del año en curso:
+ * "03/04/75" es 1975 y "01/09/19" es 2019.
+ * @param year El año tal como viene en la celda.
+ * @param referenceYear El año en curso.
+ * @returns El año con cuatro cifras; los años que ya las tienen se devuelven sin cambios.
+ */
+export const expandTwoDigitYear = (year: number, referenceYear = new Date().getFullYear()): number => {
+  if (year >= 100) return year;
+  const century = Math.floor(referenceYear / 100) * 100;
+  return century + year > referenceYear ? century - 100 + year : century + year;
+};
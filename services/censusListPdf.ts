@@ -0,0 +1,168 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { TableRow } from '../types';
+import { findWorkcenterColumn, getWorkcenter } from './seatCalculation';
+import { getCandidateLabel } from './candidateIdentity';
+import { findIdColumn, maskId } from './idValidation';
+import { findEligibilityColumns, parseCensusDate } from './eligibility';
+
+export type IdDisplay = 'full' | 'masked' | 'hidden';
+
+export interface CensusListOptions {
+  // Un PDF por centro o un único PDF con un salto de página entre centros
+  mode: 'combined' | 'perWorkcenter';
+  idDisplay: IdDisplay;
+  showSeniority: boolean;
+}
+
+export interface CensusListDocument {
+  fileName: string;
+  doc: jsPDF;
+}
+
+const HEADER_HEIGHT = 38;
+
+// Formatear fecha para mostrarla amigablemente
+const formatDisplayDate = (dateString: string) => {
+  if (!dateString) return 'No especificada';
+  const [year, month, day] = dateString.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const toFileName = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').toLowerCase();
+
+/**
+ * Agrupa el censo por centro y ordena cada grupo por apellidos.
+ * @returns Los centros en orden alfabético con sus filas ya ordenadas.
+ */
+export const groupCensusByWorkcenter = (headers: string[], data: TableRow[]): { workcenter: string; rows: TableRow[] }[] => {
+  const workcenterColumn = findWorkcenterColumn(headers);
+  const groups = new Map<string, TableRow[]>();
+  data.forEach(row => {
+    const workcenter = getWorkcenter(row, workcenterColumn);
+    if (!groups.has(workcenter)) groups.set(workcenter, []);
+    groups.get(workcenter)!.push(row);
+  });
+  return Array.from(groups.entries())
+    .map(([workcenter, rows]) => ({
+      workcenter,
+      rows: [...rows].sort((a, b) => getCandidateLabel(a).localeCompare(getCandidateLabel(b), 'es')),
+    }))
+    .sort((a, b) => a.workcenter.localeCompare(b.workcenter));
+};
+
+// Dibuja la lista de un centro a partir de la página actual del documento.
+const drawWorkcenterList = (
+  doc: jsPDF,
+  headers: string[],
+  workcenter: string,
+  rows: TableRow[],
+  votingDate: string,
+  options: CensusListOptions,
+) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const idColumn = findIdColumn(headers);
+  const { seniorityColumn } = findEligibilityColumns(headers);
+  const showId = options.idDisplay !== 'hidden' && Boolean(idColumn);
+  const showSeniority = options.showSeniority && Boolean(seniorityColumn);
+
+  const head = ['Nº', 'Apellidos y nombre'];
+  if (showId) head.push(options.idDisplay === 'masked' ? 'DNI (parcial)' : 'DNI');
+  if (showSeniority) head.push('Antigüedad');
+
+  const body = rows.map((row, index) => {
+    const cells = [String(index + 1), getCandidateLabel(row)];
+    if (showId) {
+      cells.push(options.idDisplay === 'masked' ? maskId(row[idColumn!]) : String(row[idColumn!] ?? ''));
+    }
+    if (showSeniority) {
+      const date = parseCensusDate(row[seniorityColumn!]);
+      cells.push(date ? date.toLocaleDateString('es-ES') : String(row[seniorityColumn!] ?? ''));
+    }
+    return cells;
+  });
+
+  const firstPage = doc.getNumberOfPages();
+  autoTable(doc, {
+    head: [head],
+    body,
+    startY: HEADER_HEIGHT,
+    margin: { top: HEADER_HEIGHT, bottom: 20 },
+    theme: 'grid',
+    headStyles: { fillColor: [93, 134, 108] }, // #5D866C
+    didDrawPage: (data) => {
+      // Cabecera de cada página: la lista se expone en el tablón y se lee página a página
+      doc.setFontSize(16);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40);
+      doc.text('Censo Electoral · Lista de Electores', pageWidth / 2, 16, { align: 'center' });
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`Centro: ${workcenter}`, 20, 25);
+      doc.text(`Fecha de votación: ${formatDisplayDate(votingDate)}`, pageWidth - 20, 25, { align: 'right' });
+      doc.setLineWidth(0.5);
+      doc.line(20, 29, pageWidth - 20, 29);
+
+      doc.setFontSize(9);
+      doc.setTextColor(150);
+      doc.text(
+        `${workcenter} · Página ${doc.getNumberOfPages() - firstPage + 1}`,
+        data.settings.margin.left,
+        pageHeight - 10
+      );
+    },
+  });
+
+  // Espacio para las firmas de la mesa
+  let startY = (doc as any).lastAutoTable.finalY + 15;
+  if (startY > pageHeight - 50) {
+    doc.addPage();
+    startY = HEADER_HEIGHT;
+  }
+  doc.setFontSize(10);
+  doc.setTextColor(40);
+  doc.text(`Total de electores: ${rows.length}`, 20, startY);
+  startY += 8;
+  doc.text('En ____________________, a ____ de ________________ de ________', 20, startY);
+  startY += 8;
+  const signatureWidth = (pageWidth - 40) / 3;
+  ['Presidente/a de la mesa', 'Secretario/a', 'Vocal'].forEach((role, index) => {
+    const x = 20 + index * signatureWidth;
+    doc.line(x + 5, startY + 20, x + signatureWidth - 5, startY + 20);
+    doc.text(role, x + signatureWidth / 2, startY + 26, { align: 'center' });
+  });
+};
+
+/**
+ * Genera las listas de electores de cada centro, ordenadas por apellidos, para su exposición.
+ * @param headers Las cabeceras del censo.
+ * @param data Las filas del censo.
+ * @param votingDate La fecha de votación (YYYY-MM-DD).
+ * @param options Las columnas y el modo de generación.
+ * @returns Los documentos generados, uno o uno por centro.
+ */
+export const buildCensusListDocuments = (
+  headers: string[],
+  data: TableRow[],
+  votingDate: string,
+  options: CensusListOptions,
+): CensusListDocument[] => {
+  const groups = groupCensusByWorkcenter(headers, data);
+
+  if (options.mode === 'perWorkcenter') {
+    return groups.map(({ workcenter, rows }) => {
+      const doc = new jsPDF();
+      drawWorkcenterList(doc, headers, workcenter, rows, votingDate, options);
+      return { fileName: `censo_${toFileName(workcenter)}.pdf`, doc };
+    });
+  }
+
+  const doc = new jsPDF();
+  groups.forEach(({ workcenter, rows }, index) => {
+    if (index > 0) doc.addPage();
+    drawWorkcenterList(doc, headers, workcenter, rows, votingDate, options);
+  });
+  return [{ fileName: 'censo_electoral.pdf', doc }];
+};
@@ -0,0 +1,168 @@
+import type { TableRow } from '../types';
+import { findIdColumn, validateSpanishId } from './idValidation';
+import { findNameColumns, normalizeIdentityPart, normalizeIdentifier } from './candidateIdentity';
+
+type CheckedState = Record<number, Record<string, boolean>>;
+
+export interface ReconciliationEntry {
+  label: string;
+  unions: string[];
+}
+
+// Persona conciliada por su nombre cuyo DNI/NIF cambia entre los dos censos.
+export interface ChangedIdEntry {
+  label: string;
+  previousId: string;
+  newId: string;
+}
+
+export interface ReconciliationResult {
+  checkedState: CheckedState;
+  keyDescription: string;
+  matchedMarks: number;
+  unmatchedMarks: ReconciliationEntry[];
+  removedRows: ReconciliationEntry[];
+  changedIds: ChangedIdEntry[];
+  addedRows: number;
+  // Fila del censo nuevo que corresponde a cada fila conciliada del anterior
+  newIndexByOld: Map<number, number>;
+}
+
+// Claves de una persona: el DNI/NIF solo si es válido, y su nombre completo normalizado.
+interface PersonKeys {
+  id: string | null;
+  name: string | null;
+}
+
+const getPersonKeys = (row: TableRow, idColumn: string | undefined, nameColumns: string[]): PersonKeys => {
+  const id = idColumn && validateSpanishId(row[idColumn]).status === 'valid' ? normalizeIdentifier(row[idColumn]) : null;
+  const name = nameColumns.map(c => normalizeIdentityPart(row[c])).filter(Boolean).join(' ');
+  return { id, name: name || null };
+};
+
+const addToIndex = (index: Map<string, number[]>, key: string | null, rowIndex: number) => {
+  if (!key) return;
+  if (!index.has(key)) index.set(key, []);
+  index.get(key)!.push(rowIndex);
+};
+
+const getRowLabel = (row: TableRow, idColumn: string | undefined, nameColumns: string[]): string => {
+  const name = nameColumns.map(c => String(row[c] ?? '').trim()).filter(Boolean).join(' ');
+  const id = idColumn ? String(row[idColumn] ?? '').trim() : '';
+  if (name && id) return `${name} (${id})`;
+  return name || id || String(Object.values(row).find(v => v) ?? 'Persona desconocida');
+};
+
+/**
+ * Concilia un censo actualizado con el actual, trasladando las marcas de cada persona a su fila
+ * en el nuevo archivo. Primero se emparejan las filas con el mismo DNI/NIF válido en ambos censos;
+ * las demás se emparejan por nombre, salvo que las dos tengan DNI válidos distintos, y se avisa
+ * de las que cambian de DNI. Cuando una misma clave aparece varias veces, se emparejan por orden.
+ * @param oldHeaders Cabeceras del censo actual.
+ * @param oldData Filas del censo actual.
+ * @param checkedState Marcas actuales, indexadas por la posición en `oldData`.
+ * @param newHeaders Cabeceras del censo nuevo.
+ * @param newData Filas del censo nuevo.
+ * @returns Las marcas reindexadas y un resumen de lo que no se pudo conciliar.
+ */
+export const reconcileCensus = (
+  oldHeaders: string[],
+  oldData: TableRow[],
+  checkedState: CheckedState,
+  newHeaders: string[],
+  newData: TableRow[],
+): ReconciliationResult => {
+  const oldIdColumn = findIdColumn(oldHeaders);
+  const newIdColumn = findIdColumn(newHeaders);
+  // Solo se concilia por DNI si ambos archivos tienen la columna; si no, se usa el nombre.
+  const useId = Boolean(oldIdColumn && newIdColumn);
+  const oldNameColumns = findNameColumns(oldHeaders);
+  const newNameColumns = findNameColumns(newHeaders);
+
+  const oldKeys = oldData.map(row => getPersonKeys(row, useId ? oldIdColumn : undefined, oldNameColumns));
+  const newKeys = newData.map(row => getPersonKeys(row, useId ? newIdColumn : undefined, newNameColumns));
+  const newIndexesById = new Map<string, number[]>();
+  const newIndexesByName = new Map<string, number[]>();
+  newKeys.forEach((keys, index) => {
+    addToIndex(newIndexesById, keys.id, index);
+    addToIndex(newIndexesByName, keys.name, index);
+  });
+
+  const matchedNewIndexes = new Set<number>();
+  const newIndexByOld = new Map<number, number>();
+  const takeFirstFree = (candidates: number[] | undefined, accept: (index: number) => boolean = () => true) => {
+    const newIndex = candidates?.find(i => !matchedNewIndexes.has(i) && accept(i));
+    if (newIndex !== undefined) matchedNewIndexes.add(newIndex);
+    return newIndex;
+  };
+
+  // Primera pasada: mismo DNI válido en los dos censos
+  oldKeys.forEach((keys, oldIndex) => {
+    const newIndex = keys.id ? takeFirstFree(newIndexesById.get(keys.id)) : undefined;
+    if (newIndex !== undefined) newIndexByOld.set(oldIndex, newIndex);
+  });
+
+  // Segunda pasada: por nombre, si a alguna de las dos filas le falta un DNI válido con que distinguirlas
+  const changedIds: ChangedIdEntry[] = [];
+  oldKeys.forEach((keys, oldIndex) => {
+    if (newIndexByOld.has(oldIndex) || !keys.name) return;
+    const newIndex = takeFirstFree(newIndexesByName.get(keys.name), i => !keys.id || !newKeys[i].id);
+    if (newIndex === undefined) return;
+    newIndexByOld.set(oldIndex, newIndex);
+    const previousId = oldIdColumn ? String(oldData[oldIndex][oldIdColumn] ?? '').trim() : '';
+    const newId = newIdColumn ? String(newData[newIndex][newIdColumn] ?? '').trim() : '';
+    if (useId && normalizeIdentifier(previousId) !== normalizeIdentifier(newId)) {
+      changedIds.push({ label: getRowLabel(newData[newIndex], newIdColumn, newNameColumns), previousId, newId });
+    }
+  });
+
+  const newCheckedState: CheckedState = {};
+  const unmatchedMarks: ReconciliationEntry[] = [];
+  const removedRows: ReconciliationEntry[] = [];
+  let matchedMarks = 0;
+
+  oldData.forEach((row, oldIndex) => {
+    const markedUnions = Object.entries(checkedState[oldIndex] ?? {})
+      .filter(([, isChecked]) => isChecked)
+      .map(([union]) => union);
+    const newIndex = newIndexByOld.get(oldIndex);
+
+    if (newIndex === undefined) {
+      const entry = { label: getRowLabel(row, oldIdColumn, oldNameColumns), unions: markedUnions };
+      removedRows.push(entry);
+      if (markedUnions.length > 0) unmatchedMarks.push(entry);
+      return;
+    }
+
+    if (markedUnions.length > 0) {
+      newCheckedState[newIndex] = { ...checkedState[oldIndex] };
+      matchedMarks += markedUnions.length;
+    }
+  });
+
+  return {
+    checkedState: newCheckedState,
+    keyDescription: useId ? `DNI/NIF (columna "${newIdColumn}") y, si falta o no es válido, por nombre y apellidos` : 'Nombre y apellidos',
+    matchedMarks,
+    unmatchedMarks,
+    removedRows,
+    changedIds,
+    addedRows: newData.length - matchedNewIndexes.size,
+    newIndexByOld,
+  };
+};
+
+/**
+ * Traslada al censo nuevo listas de índices de fila guardadas por sindicato (orden de candidatos,
+ * suplentes), quitando las filas que no se pudieron conciliar.
+ * @param lists Las listas de índices del censo anterior.
+ * @param newIndexByOld La correspondencia de filas que devuelve `reconcileCensus`.
+ */
+export const remapRowIndexLists = (
+  lists: Record<string, number[]>,
+  newIndexByOld: Map<number, number>,
+): Record<string, number[]> =>
+  Object.fromEntries(Object.entries(lists).map(([union, rowIndexes]) => [
+    union,
+    rowIndexes.flatMap(rowIndex => newIndexByOld.has(rowIndex) ? [newIndexByOld.get(rowIndex)!] : []),
+  ]));
@@ -0,0 +1,88 @@
+import type { TableRow, ColumnLayout, TableSort } from '../types';
+import { parseCensusDate } from './eligibility';
+
+export const EMPTY_COLUMN_LAYOUT: ColumnLayout = { order: [], hidden: [], widths: {}, sort: null };
+
+export const MIN_COLUMN_WIDTH = 60;
+
+const collator = new Intl.Collator('es', { numeric: true, sensitivity: 'base' });
+
+/**
+ * Devuelve todas las columnas en el orden elegido. Las columnas que no figuran en el
+ * orden guardado (por ejemplo, tras reemplazar el censo) se añaden al final en el orden del archivo.
+ */
+export const getOrderedColumns = (headers: string[], layout: ColumnLayout): string[] => {
+  const ordered = layout.order.filter(header => headers.includes(header));
+  return [...ordered, ...headers.filter(header => !ordered.includes(header))];
+};
+
+export const getVisibleColumns = (headers: string[], layout: ColumnLayout): string[] =>
+  getOrderedColumns(headers, layout).filter(header => !layout.hidden.includes(header));
+
+// Mueve la columna `from` a la posición que ocupa `to`.
+export const moveColumn = (headers: string[], layout: ColumnLayout, from: string, to: string): ColumnLayout => {
+  const order = getOrderedColumns(headers, layout);
+  const fromIndex = order.indexOf(from);
+  const toIndex = order.indexOf(to);
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return layout;
+  order.splice(fromIndex, 1);
+  order.splice(toIndex, 0, from);
+  return { ...layout, order };
+};
+
+export const toggleColumnVisibility = (layout: ColumnLayout, header: string): ColumnLayout => ({
+  ...layout,
+  hidden: layout.hidden.includes(header)
+    ? layout.hidden.filter(h => h !== header)
+    : [...layout.hidden, header],
+});
+
+// Cada clic en una cabecera alterna entre ascendente, descendente y sin ordenar.
+export const getNextSort = (current: TableSort | null, key: string, byUnion: boolean): TableSort | null => {
+  if (!current || current.key !== key || Boolean(current.byUnion) !== byUnion) {
+    return { key, direction: 'asc', byUnion: byUnion || undefined };
+  }
+  return current.direction === 'asc' ? { ...current, direction: 'desc' } : null;
+};
+
+// Las fechas se comparan como fechas; los números de las celdas no, para no confundir un DNI con una fecha de Excel.
+const compareCells = (a: unknown, b: unknown): number => {
+  const dateA = typeof a === 'number' ? null : parseCensusDate(a);
+  const dateB = typeof b === 'number' ? null : parseCensusDate(b);
+  if (dateA && dateB) {
+    return dateA.getTime() - dateB.getTime();
+  }
+  return collator.compare(String(a ?? ''), String(b ?? ''));
+};
+
+const isEmptyCell = (value: unknown): boolean => String(value ?? '').trim() === '';
+
+/**
+ * Ordena las filas de la tabla sin modificar el array original.
+ * Las celdas vacías quedan siempre al final; al ordenar por un sindicato, en orden
+ * ascendente aparecen primero las personas marcadas.
+ */
+export const sortTableRows = <T extends { row: TableRow; originalIndex: number }>(
+  rows: T[],
+  sort: TableSort | null,
+  checkedState: Record<number, Record<string, boolean>>,
+): T[] => {
+  if (!sort) return rows;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+
+  if (sort.byUnion) {
+    const isMarked = (item: T) => (checkedState[item.originalIndex]?.[sort.key] ? 0 : 1);
+    return [...rows].sort((a, b) => factor * (isMarked(a) - isMarked(b)) || a.originalIndex - b.originalIndex);
+  }
+
+  return [...rows].sort((a, b) => {
+    const valueA = a.row[sort.key];
+    const valueB = b.row[sort.key];
+    const emptyA = isEmptyCell(valueA);
+    const emptyB = isEmptyCell(valueB);
+    if (emptyA || emptyB) {
+      return Number(emptyA) - Number(emptyB) || a.originalIndex - b.originalIndex;
+    }
+    return factor * compareCells(valueA, valueB) || a.originalIndex - b.originalIndex;
+  });
+};
@@ -0,0 +1,212 @@
+import type { TableRow, MappingSuggestion, MappingProfile } from '../types';
+import { normalizeIdentityPart } from './candidateIdentity';
+import { validateSpanishId } from './idValidation';
+import { parseCensusDate } from './eligibility';
+
+export const IGNORE_FIELD = 'ignorar';
+
+// Campo del esquema ideal: cómo suele llamarse la columna y qué aspecto tienen sus valores.
+interface IdealField {
+  key: string;
+  label: string;
+  headerPatterns: RegExp[];
+  matchesValue?: (value: unknown) => boolean;
+  // Peso de los valores en la puntuación; solo el DNI se reconoce con fiabilidad sin mirar la cabecera.
+  valueWeight?: number;
+}
+
+const isPersonName = (value: unknown): boolean => /^[a-z ]{2,}$/.test(normalizeIdentityPart(value));
+const isDate = (value: unknown): boolean => parseCensusDate(value) !== null;
+
+// El orden importa: ante la misma puntuación gana el campo que aparece antes.
+export const IDEAL_FIELDS: IdealField[] = [
+  {
+    key: 'nombre_completo',
+    label: 'Nombre completo',
+    headerPatterns: [/apellidos? y nombre|nombre y apellidos?|nombre completo|apellidos?,? nombre/, /^(empleado|trabajador|trabajadora|candidato|persona)$/],
+    matchesValue: (value) => isPersonName(value) && normalizeIdentityPart(value).split(' ').length >= 2,
+    valueWeight: 0.2,
+  },
+  {
+    key: 'apellidos',
+    label: 'Apellidos',
+    headerPatterns: [/^apellidos?$/, /apellido|surname|last name/],
+    matchesValue: isPersonName,
+    valueWeight: 0.1,
+  },
+  {
+    key: 'nombre',
+    label: 'Nombre',
+    headerPatterns: [/^(nombre|nombres|name|first name)$/, /^nombre\b|nombre pila/],
+    matchesValue: isPersonName,
+    valueWeight: 0.1,
+  },
+  {
+    key: 'dni',
+    label: 'DNI / NIE',
+    headerPatterns: [/^(dni|nif|nie|dni nie|nif nie)$/, /\b(dni|nif|nie)\b|documento|identificaci|pasaporte/],
+    matchesValue: (value) => validateSpanishId(value).status === 'valid',
+    valueWeight: 0.7,
+  },
+  {
+    key: 'centro',
+    label: 'Centro de trabajo',
+    headerPatterns: [/^(centro|centro de trabajo|tienda)$/, /centro|tienda|establecimiento|sede|delegaci/],
+  },
+  {
+    key: 'fecha_antiguedad',
+    label: 'Fecha de antigüedad',
+    headerPatterns: [/^(antiguedad|fecha antiguedad|fecha de antiguedad)$/, /antig|fecha.*(alta|ingreso|incorpor)|^f alta$/],
+    matchesValue: isDate,
+    valueWeight: 0.2,
+  },
+  {
+    key: 'fecha_nacimiento',
+    label: 'Fecha de nacimiento',
+    headerPatterns: [/^(fecha nacimiento|fecha de nacimiento|nacimiento)$/, /nacimiento|^f nac|birth/],
+    matchesValue: isDate,
+    valueWeight: 0.2,
+  },
+  {
+    key: 'grupo_profesional',
+    label: 'Grupo profesional',
+    headerPatterns: [/^(grupo profesional|categoria|categoria profesional)$/, /grupo prof|categor|puesto|grupo/],
+  },
+];
+
+export const IDEAL_FIELD_KEYS = IDEAL_FIELDS.map(field => field.key);
+
+const SAMPLE_SIZE = 50;
+const MIN_CONFIDENCE = 0.5;
+
+/**
+ * Puntúa de 0 a 1 lo probable que es que una columna corresponda a un campo del esquema.
+ * La cabecera pesa más que los valores (1 si coincide exactamente, 0,9 o 0,7 según el patrón);
+ * los valores de muestra suben o bajan esa puntuación según su peso en el campo.
+ */
+const scoreField = (field: IdealField, normalizedHeader: string, samples: unknown[]): number => {
+  let headerScore = 0;
+  if (normalizedHeader === normalizeIdentityPart(field.key)) {
+    headerScore = 1;
+  } else if (field.headerPatterns[0].test(normalizedHeader)) {
+    headerScore = 0.9;
+  } else if (field.headerPatterns.slice(1).some(pattern => pattern.test(normalizedHeader))) {
+    headerScore = 0.7;
+  }
+
+  if (!field.matchesValue || samples.length === 0) {
+    return headerScore;
+  }
+  const valueRatio = samples.filter(field.matchesValue).length / samples.length;
+  const weight = field.valueWeight ?? 0;
+  if (headerScore === 0) {
+    return valueRatio * weight;
+  }
+  // Con la cabecera reconocida, los valores confirman o desmienten la coincidencia
+  return Math.max(0, Math.min(1, headerScore + weight * (valueRatio - 0.5)));
+};
+
+/**
+ * Propone a qué campo del esquema ideal corresponde cada columna, mirando su nombre
+ * y una muestra de sus valores. Cada campo se asigna como mucho a una columna, la de mayor puntuación;
+ * las columnas sin un candidato claro se dejan con su nombre original.
+ * @param headers Las cabeceras del archivo.
+ * @param data Las filas del archivo.
+ * @returns Una sugerencia por cabecera, en el orden del archivo.
+ */
+export const suggestColumnMappings = (headers: string[], data: TableRow[]): MappingSuggestion[] => {
+  const sampleRows = data.slice(0, SAMPLE_SIZE);
+  const candidates: { header: string; field: string; score: number }[] = [];
+
+  headers.forEach(header => {
+    const normalizedHeader = normalizeIdentityPart(header);
+    const samples = sampleRows.map(row => row[header]).filter(value => value !== null && value !== undefined && String(value).trim() !== '');
+    IDEAL_FIELDS.forEach(field => {
+      const score = scoreField(field, normalizedHeader, samples);
+      if (score >= MIN_CONFIDENCE) {
+        candidates.push({ header, field: field.key, score });
+      }
+    });
+  });
+
+  // Asignación voraz: primero las parejas más seguras
+  candidates.sort((a, b) => b.score - a.score || IDEAL_FIELD_KEYS.indexOf(a.field) - IDEAL_FIELD_KEYS.indexOf(b.field));
+  const assigned = new Map<string, { field: string; score: number }>();
+  const usedFields = new Set<string>();
+  candidates.forEach(({ header, field, score }) => {
+    if (assigned.has(header) || usedFields.has(field)) return;
+    assigned.set(header, { field, score });
+    usedFields.add(field);
+  });
+
+  return headers.map(header => {
+    const match = assigned.get(header);
+    return match
+      ? { original: header, suggested: match.field, confidence: Math.round(match.score * 100) / 100 }
+      : { original: header, suggested: header };
+  });
+};
+
+// Indica si las sugerencias cambian algo; si no, no hace falta preguntar nada al importar.
+export const mappingsChangeHeaders = (mappings: MappingSuggestion[]): boolean =>
+  mappings.some(({ original, suggested }) => original !== suggested);
+
+// Campos del esquema elegidos para más de una columna, que impedirían confirmar el mapeo.
+export const findConflictingMappings = (mappings: MappingSuggestion[]): string[] => {
+  const counts = new Map<string, number>();
+  mappings.forEach(({ suggested }) => {
+    if (suggested !== IGNORE_FIELD) {
+      counts.set(suggested, (counts.get(suggested) ?? 0) + 1);
+    }
+  });
+  return Array.from(counts.entries()).filter(([, count]) => count > 1).map(([field]) => field);
+};
+
+/**
+ * Renombra las columnas según el mapeo y elimina las marcadas como `ignorar`.
+ * Las cabeceras que no aparecen en el mapeo se conservan tal cual.
+ */
+export const applyColumnMappings = (headers: string[], data: TableRow[], mappings: MappingSuggestion[]): { headers: string[]; data: TableRow[] } => {
+  const targets: Record<string, string> = {};
+  mappings.forEach(({ original, suggested }) => {
+    targets[original] = suggested;
+  });
+  const targetOf = (header: string) => targets[header] ?? header;
+
+  const newHeaders = headers.map(targetOf).filter(header => header !== IGNORE_FIELD);
+  const newData = data.map(row => {
+    const newRow: TableRow = {};
+    Object.keys(row).forEach(key => {
+      const target = targetOf(key);
+      if (target !== IGNORE_FIELD) {
+        newRow[target] = row[key];
+      }
+    });
+    return newRow;
+  });
+  return { headers: newHeaders, data: newData };
+};
+
+const headerSignature = (headers: string[]): string =>
+  headers.map(normalizeIdentityPart).sort().join('|');
+
+/**
+ * Busca un perfil guardado para un archivo con exactamente las mismas cabeceras,
+ * sin tener en cuenta el orden, las mayúsculas ni las tildes.
+ */
+export const findMatchingProfile = (profiles: MappingProfile[], headers: string[]): MappingProfile | undefined => {
+  const signature = headerSignature(headers);
+  return profiles.find(profile => headerSignature(profile.headers) === signature);
+};
+
+/**
+ * Adapta las asignaciones de un perfil a las cabeceras tal como vienen escritas en el archivo.
+ * Las cabeceras que el perfil no conoce se dejan sin cambios.
+ */
+export const getProfileMappings = (profile: MappingProfile, headers: string[]): MappingSuggestion[] => {
+  const byHeader = new Map(profile.mappings.map(mapping => [normalizeIdentityPart(mapping.original), mapping.suggested]));
+  return headers.map(header => ({ original: header, suggested: byHeader.get(normalizeIdentityPart(header)) ?? header }));
+};
+
+export const getIdealFieldLabel = (key: string): string | undefined =>
+  IDEAL_FIELDS.find(field => field.key === key)?.label;
@@ -0,0 +1,120 @@
+import type { TableRow, Corrections } from '../types';
+import { getCandidateLabel } from './candidateIdentity';
+
+// Una línea del registro de correcciones que acompaña a las exportaciones.
+export interface CorrectionLogEntry {
+  rowIndex: number;
+  person: string;
+  column: string;
+  original: string;
+  corrected: string;
+  timestamp: string;
+  user: string;
+}
+
+/**
+ * Superpone las correcciones a las filas importadas. Las filas sin correcciones
+ * se devuelven tal cual para no romper la memoización de la tabla.
+ */
+export const applyCorrections = <T extends { row: TableRow; originalIndex: number }>(data: T[], corrections: Corrections): T[] =>
+  data.map(item => {
+    const rowCorrections = corrections[item.originalIndex];
+    if (!rowCorrections) return item;
+    const row = { ...item.row };
+    Object.entries(rowCorrections).forEach(([header, correction]) => {
+      row[header] = correction.value;
+    });
+    return { ...item, row };
+  });
+
+export const removeCorrection = (corrections: Corrections, rowIndex: number, header: string): Corrections => {
+  if (!corrections[rowIndex]?.[header]) return corrections;
+  const rowCorrections = { ...corrections[rowIndex] };
+  delete rowCorrections[header];
+  const next = { ...corrections };
+  if (Object.keys(rowCorrections).length > 0) {
+    next[rowIndex] = rowCorrections;
+  } else {
+    delete next[rowIndex];
+  }
+  return next;
+};
+
+/**
+ * Guarda la corrección de una celda. Volver a escribir el valor importado equivale a deshacerla.
+ */
+export const setCorrection = (
+  corrections: Corrections,
+  rowIndex: number,
+  header: string,
+  originalValue: unknown,
+  value: string,
+  user: string,
+): Corrections => {
+  const original = String(originalValue ?? '');
+  if (value === original) {
+    return removeCorrection(corrections, rowIndex, header);
+  }
+  return {
+    ...corrections,
+    [rowIndex]: {
+      ...corrections[rowIndex],
+      [header]: { value, original, timestamp: new Date().toISOString(), user },
+    },
+  };
+};
+
+/**
+ * Traslada las correcciones a las filas del censo que sustituye al actual.
+ * El valor importado de referencia pasa a ser el del nuevo archivo, y las correcciones
+ * que el nuevo archivo ya trae hechas dejan de hacer falta.
+ * @param newIndexByOld La fila del censo nuevo que corresponde a cada fila del anterior.
+ * @param newData Las filas del censo nuevo.
+ * @returns Las correcciones reindexadas y cuántas se perdieron porque su fila ya no está.
+ */
+export const remapCorrections = (
+  corrections: Corrections,
+  newIndexByOld: Map<number, number>,
+  newData: TableRow[],
+): { corrections: Corrections; dropped: number } => {
+  const remapped: Corrections = {};
+  let dropped = 0;
+  Object.entries(corrections).forEach(([oldIndex, rowCorrections]) => {
+    const newIndex = newIndexByOld.get(Number(oldIndex));
+    if (newIndex === undefined) {
+      dropped += Object.keys(rowCorrections).length;
+      return;
+    }
+    Object.entries(rowCorrections).forEach(([header, correction]) => {
+      const original = String(newData[newIndex][header] ?? '');
+      if (original === correction.value) return;
+      remapped[newIndex] = { ...remapped[newIndex], [header]: { ...correction, original } };
+    });
+  });
+  return { corrections: remapped, dropped };
+};
+
+export const countCorrections = (corrections: Corrections): number =>
+  Object.values(corrections).reduce((sum, rowCorrections) => sum + Object.keys(rowCorrections).length, 0);
+
+/**
+ * Lista todas las correcciones por orden cronológico, con la persona ya corregida.
+ */
+export const buildCorrectionLog = (data: TableRow[], corrections: Corrections): CorrectionLogEntry[] =>
+  Object.entries(corrections)
+    .flatMap(([rowIndex, rowCorrections]) => {
+      const index = Number(rowIndex);
+      const row = data[index];
+      if (!row) return [];
+      const person = getCandidateLabel({ ...row, ...Object.fromEntries(Object.entries(rowCorrections).map(([h, c]) => [h, c.value])) });
+      return Object.entries(rowCorrections).map(([column, correction]) => ({
+        rowIndex: index,
+        person,
+        column,
+        original: correction.original,
+        corrected: correction.value,
+        timestamp: correction.timestamp,
+        user: correction.user,
+      }));
+    })
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
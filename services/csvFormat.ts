@@ -0,0 +1,229 @@
+import Papa from 'papaparse';
+import type { TableRow, ImportIssue } from '../types';
+import type { CellRows } from './tableLayout';
+
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-15' | 'utf-16le';
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type DecimalSeparator = ',' | '.';
+
+// Cómo leer un CSV: la codificación del texto, el separador de campos y el separador decimal.
+export interface CsvFormat {
+  encoding: CsvEncoding;
+  delimiter: CsvDelimiter;
+  decimal: DecimalSeparator;
+}
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 (Excel en español)',
+  'iso-8859-15': 'ISO-8859-15 (Latin-9)',
+  'utf-16le': 'UTF-16',
+};
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ';': 'Punto y coma (;)',
+  ',': 'Coma (,)',
+  '\t': 'Tabulador',
+  '|': 'Barra vertical (|)',
+};
+
+export const DECIMAL_SEPARATOR_LABELS: Record<DecimalSeparator, string> = {
+  ',': 'Coma (1.234,56)',
+  '.': 'Punto (1,234.56)',
+};
+
+const DELIMITERS = Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiter[];
+// Líneas que se miran para adivinar el separador y el decimal
+const SAMPLE_LINES = 50;
+// Caracteres que se leen de una vez, para poder avisar del progreso en archivos grandes
+const CSV_CHUNK_SIZE = 512 * 1024;
+
+const DECIMAL_COMMA = /^-?\d{1,3}(\.\d{3})*,\d+$|^-?\d+,\d+$/;
+const DECIMAL_POINT = /^-?\d{1,3}(,\d{3})*\.\d+$|^-?\d+\.\d+$/;
+const INTEGER = /^-?\d+$/;
+// Columnas de identidad, nombres y categorías: sus valores son códigos aunque parezcan números ("2.1")
+const TEXT_COLUMN_HEADER = /dni|nif|nie|documento|nombre|apellido|name|grupo|categor|nivel|puesto|c[oó]digo|centro|colegio|convenio|secci[oó]n|departamento/i;
+// Valores que se miran en cada columna para decidir si es numérica, y cuántos deben ser números
+const COLUMN_SAMPLE_SIZE = 200;
+const NUMERIC_COLUMN_SHARE = 0.8;
+
+/**
+ * Adivina la codificación de un CSV. Respeta la marca BOM si la hay; si no, el texto
+ * que no es UTF-8 válido se lee como Windows-1252, la que usa Excel en español al guardar CSV.
+ * @param bytes El contenido del archivo.
+ */
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+/**
+ * Convierte el contenido del archivo en texto con la codificación indicada, sin la marca BOM.
+ */
+export const decodeCsv = (bytes: Uint8Array, encoding: CsvEncoding): string =>
+  new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+
+// Cuenta las apariciones de un carácter fuera de las comillas.
+const countOutsideQuotes = (line: string, char: string): number => {
+  let count = 0;
+  let quoted = false;
+  for (const c of line) {
+    if (c === '"') quoted = !quoted;
+    else if (c === char && !quoted) count++;
+  }
+  return count;
+};
+
+/**
+ * Adivina el separador de campos: el que aparece un número constante de veces en más líneas.
+ * Ante la duda se prefiere el punto y coma, habitual en los CSV de Excel en español.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim()).slice(0, SAMPLE_LINES);
+  let best: CsvDelimiter = ';';
+  let bestScore = 0;
+
+  DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter)).filter(count => count > 0);
+    if (counts.length === 0) return;
+    // El recuento más repetido es el número de columnas de la tabla menos uno
+    const frequency = new Map<number, number>();
+    counts.forEach(count => frequency.set(count, (frequency.get(count) ?? 0) + 1));
+    const [columns, lineCount] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    const score = lineCount * Math.log2(columns + 1);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Adivina el separador decimal por los números con decimales de la muestra.
+ * Sin números que lo aclaren, se supone la coma si los campos van separados por punto y coma.
+ */
+export const detectDecimalSeparator = (rows: CellRows, delimiter: CsvDelimiter): DecimalSeparator => {
+  let comma = 0;
+  let point = 0;
+  rows.slice(0, SAMPLE_LINES).forEach(row => row.forEach(cell => {
+    const value = String(cell ?? '').trim();
+    if (DECIMAL_COMMA.test(value)) comma++;
+    else if (DECIMAL_POINT.test(value)) point++;
+  }));
+  if (comma !== point) return comma > point ? ',' : '.';
+  return delimiter === ';' ? ',' : '.';
+};
+
+/**
+ * Lee un número con decimales escrito con el separador indicado.
+ * Los enteros no se convierten, para no perder los ceros iniciales de DNI, códigos o teléfonos.
+ * @returns El número, o `null` si el valor no es un número con decimales.
+ */
+export const parseDecimal = (value: unknown, decimal: DecimalSeparator): number | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  if (!(decimal === ',' ? DECIMAL_COMMA : DECIMAL_POINT).test(text)) return null;
+  const thousands = decimal === ',' ? /\./g : /,/g;
+  return Number(text.replace(thousands, '').replace(',', '.'));
+};
+
+// Una columna es numérica si casi todos sus valores de muestra son enteros o números con decimales.
+const isNumericColumn = (data: TableRow[], column: string, decimal: DecimalSeparator): boolean => {
+  const samples: string[] = [];
+  for (const row of data) {
+    const value = String(row[column] ?? '').trim();
+    if (value) samples.push(value);
+    if (samples.length >= COLUMN_SAMPLE_SIZE) break;
+  }
+  const numbers = samples.filter(value => INTEGER.test(value) || parseDecimal(value, decimal) !== null);
+  return samples.length > 0 && numbers.length >= samples.length * NUMERIC_COLUMN_SHARE;
+};
+
+/**
+ * Convierte en número las celdas con decimales de las columnas numéricas y anota cada conversión como incidencia.
+ * Las columnas de identidad, nombres o categorías y las que mezclan texto no se tocan,
+ * para no perder códigos como un grupo profesional "2.1".
+ * @param data Las filas del censo.
+ * @param headers Las cabeceras del censo.
+ * @param lines El número de línea en el archivo de cada fila.
+ * @param decimal El separador decimal del archivo.
+ */
+export const convertDecimalCells = (
+  data: TableRow[],
+  headers: string[],
+  lines: number[],
+  decimal: DecimalSeparator
+): { data: TableRow[]; issues: ImportIssue[] } => {
+  const numericColumns = headers.filter(header => !TEXT_COLUMN_HEADER.test(header) && isNumericColumn(data, header, decimal));
+  if (numericColumns.length === 0) {
+    return { data, issues: [] };
+  }
+  const issues: ImportIssue[] = [];
+  const converted = data.map((row, index) => {
+    const newRow = { ...row };
+    numericColumns.forEach(column => {
+      const number = parseDecimal(row[column], decimal);
+      if (number === null) return;
+      newRow[column] = number;
+      issues.push({ kind: 'coerced', line: lines[index], column, value: row[column], newValue: String(number), reason: 'Texto leído como número con decimales' });
+    });
+    return newRow;
+  });
+  return { data: converted, issues };
+};
+
+/**
+ * Lee las filas de un CSV con el formato indicado, celda a celda y como texto.
+ * Los errores de comillas o de campos no detienen la lectura: se devuelven como incidencias
+ * junto con las filas que sí se pudieron leer.
+ * @param bytes El contenido del archivo.
+ * @param format La codificación y los separadores.
+ * @param maxRows Si se indica, solo se leen las primeras filas (para la vista previa).
+ * @param onProgress Recibe la fracción del texto leída (0 a 1) y las filas leídas tras cada bloque.
+ */
+export const parseCsv = (
+  bytes: Uint8Array,
+  format: CsvFormat,
+  maxRows?: number,
+  onProgress?: (fraction: number, rowsRead: number) => void
+): { rows: CellRows; issues: ImportIssue[] } => {
+  const text = decodeCsv(bytes, format.encoding);
+  const rows: CellRows = [];
+  const issues: ImportIssue[] = [];
+  // Con una cadena de texto, Papa lee los bloques uno tras otro sin esperas
+  Papa.parse<string[]>(text, {
+    header: false,
+    delimiter: format.delimiter,
+    preview: maxRows ?? 0,
+    chunkSize: CSV_CHUNK_SIZE,
+    chunk: results => {
+      // Los números de fila de los errores empiezan de nuevo en cada bloque
+      results.errors.forEach(error => issues.push({
+        kind: 'malformed',
+        line: error.row !== undefined ? rows.length + error.row + 1 : undefined,
+        reason: error.message,
+      }));
+      results.data.forEach(row => rows.push(row));
+      onProgress?.(text.length > 0 ? results.meta.cursor / text.length : 1, rows.length);
+    },
+  });
+  return { rows, issues };
+};
+
+/**
+ * Detecta la codificación, el separador de campos y el separador decimal de un CSV.
+ */
+export const detectCsvFormat = (bytes: Uint8Array): CsvFormat => {
+  const encoding = detectEncoding(bytes);
+  const text = decodeCsv(bytes.subarray(0, 256 * 1024), encoding);
+  const delimiter = detectDelimiter(text);
+  const sample = Papa.parse<string[]>(text, { header: false, delimiter, preview: SAMPLE_LINES }).data;
+  return { encoding, delimiter, decimal: detectDecimalSeparator(sample, delimiter) };
+};
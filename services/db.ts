@@ -1,9 +1,14 @@
-import type { TableRow } from '../types';
+import type { TableRow, IdentityRule, PairDecision, EligibilityRules, CollegeMapping, ElectionResult, ColumnLayout, Corrections, UnionDefinition, MappingProfile, MappingSuggestion, ImportReport } from '../types';
 
 const DB_NAME = 'CandidaturasDB';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_NAME = 'appState';
-const STATE_KEY = 'appState'; // Usar una clave única para todo el estado
+const PROJECTS_STORE_NAME = 'projects';
+const AUDIT_STORE_NAME = 'auditLog';
+const LEGACY_STATE_KEY = 'appState'; // Clave única usada antes de existir los proyectos
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+const AUDIT_USER_KEY = 'auditUser';
+const MAPPING_PROFILES_KEY = 'mappingProfiles';
 
 export interface AppState {
     headers: string[];
@@ -11,13 +16,90 @@ export interface AppState {
     settings: {
         dates: { submissionDate: string; votingDate: string };
         unions: string[];
+        unionRegistry?: UnionDefinition[];
+        identity?: IdentityRule;
+        eligibility?: EligibilityRules;
+        colleges?: CollegeMapping;
+        columns?: ColumnLayout;
     };
     checkedState: Record<number, Record<string, boolean>>;
+    pairDecisions?: Record<string, PairDecision>;
+    // Resultados de la votación por unidad electoral y orden de los candidatos de cada sindicato
+    results?: Record<string, ElectionResult>;
+    candidateOrder?: Record<string, number[]>;
+    substitutes?: Record<string, number[]>;
+    // Correcciones hechas a mano sobre las celdas importadas, que se conservan intactas en `data`
+    corrections?: Corrections;
+    // Filas omitidas, valores defectuosos y conversiones de la última importación del censo
+    importReport?: ImportReport;
     fileName: string;
 }
 
+// Un proyecto es una elección independiente (normalmente un centro de trabajo) con su propio estado.
+export interface Project {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    state: AppState;
+}
+
+// Resumen ligero de un proyecto para mostrarlo en el selector.
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    fileName: string;
+    rowCount: number;
+}
+
+export type AuditAction = 'marcar' | 'deshacer' | 'rehacer';
+
+// Cambio de la marca de una persona para un sindicato, tal como queda en el historial.
+export interface AuditEntry {
+    id?: number;
+    projectId: string;
+    timestamp: string;
+    user: string;
+    rowIndex: number;
+    person: string;
+    union: string;
+    previousValue: boolean;
+    newValue: boolean;
+    action: AuditAction;
+}
+
 let db: IDBDatabase;
 
+const generateProjectId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Traslada el estado guardado bajo la clave única antigua a un proyecto,
+ * para no perder los datos de quien ya usaba la aplicación.
+ */
+function migrateLegacyState(transaction: IDBTransaction) {
+    const legacyStore = transaction.objectStore(STORE_NAME);
+    const request = legacyStore.get(LEGACY_STATE_KEY);
+    request.onsuccess = () => {
+        const legacyState = request.result?.value as AppState | undefined;
+        if (!legacyState) return;
+
+        const now = new Date().toISOString();
+        const project: Project = {
+            id: generateProjectId(),
+            name: legacyState.fileName ? legacyState.fileName.replace(/\.[^.]+$/, '') : 'Proyecto sin nombre',
+            createdAt: now,
+            updatedAt: now,
+            state: legacyState,
+        };
+        transaction.objectStore(PROJECTS_STORE_NAME).put(project);
+        legacyStore.delete(LEGACY_STATE_KEY);
+        legacyStore.put({ key: ACTIVE_PROJECT_KEY, value: project.id });
+    };
+}
+
 function openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
         if (db) {
@@ -38,61 +120,225 @@ function openDB(): Promise<IDBDatabase> {
 
         request.onupgradeneeded = (event) => {
             const dbInstance = (event.target as IDBOpenDBRequest).result;
+            const transaction = (event.target as IDBOpenDBRequest).transaction!;
             if (!dbInstance.objectStoreNames.contains(STORE_NAME)) {
                 dbInstance.createObjectStore(STORE_NAME, { keyPath: 'key' });
             }
+            if (!dbInstance.objectStoreNames.contains(PROJECTS_STORE_NAME)) {
+                dbInstance.createObjectStore(PROJECTS_STORE_NAME, { keyPath: 'id' });
+                if (event.oldVersion > 0) {
+                    migrateLegacyState(transaction);
+                }
+            }
+            if (!dbInstance.objectStoreNames.contains(AUDIT_STORE_NAME)) {
+                const auditStore = dbInstance.createObjectStore(AUDIT_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+                auditStore.createIndex('projectId', 'projectId');
+            }
         };
     });
 }
 
-async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+async function getStore(mode: IDBTransactionMode, storeName: string = STORE_NAME): Promise<IDBObjectStore> {
     const db = await openDB();
-    const transaction = db.transaction(STORE_NAME, mode);
-    return transaction.objectStore(STORE_NAME);
+    const transaction = db.transaction(storeName, mode);
+    return transaction.objectStore(storeName);
 }
 
-export async function saveState(state: AppState) {
-    const store = await getStore('readwrite');
-    // Guardar todo el objeto de estado bajo una única clave
-    const request = store.put({ key: STATE_KEY, value: state });
-    return new Promise<void>((resolve, reject) => {
-        request.onsuccess = () => resolve();
+// Envuelve una petición de IndexedDB en una promesa.
+function promisifyRequest<T>(request: IDBRequest<T>, errorMessage: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
         request.onerror = () => {
-            console.error("Error al guardar el estado:", request.error);
-            reject(request.error);
+            console.error(errorMessage, request.error);
+            reject(errorMessage);
         };
     });
 }
 
+async function getProject(id: string): Promise<Project | null> {
+    const store = await getStore('readonly', PROJECTS_STORE_NAME);
+    const project = await promisifyRequest(store.get(id), 'Error al cargar el proyecto');
+    return (project as Project | undefined) ?? null;
+}
+
+async function putProject(project: Project): Promise<void> {
+    const store = await getStore('readwrite', PROJECTS_STORE_NAME);
+    await promisifyRequest(store.put(project), 'Error al guardar el proyecto');
+}
+
+/**
+ * Devuelve el resumen de todos los proyectos, del más reciente al más antiguo.
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+    const store = await getStore('readonly', PROJECTS_STORE_NAME);
+    const projects = await promisifyRequest(store.getAll(), 'Error al listar los proyectos') as Project[];
+    return projects
+        .map(({ id, name, createdAt, updatedAt, state }) => ({
+            id,
+            name,
+            createdAt,
+            updatedAt,
+            fileName: state?.fileName || '',
+            rowCount: state?.data?.length || 0,
+        }))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function createProject(name: string, state: AppState): Promise<Project> {
+    const now = new Date().toISOString();
+    const project: Project = {
+        id: generateProjectId(),
+        name: name.trim() || 'Proyecto sin nombre',
+        createdAt: now,
+        updatedAt: now,
+        state,
+    };
+    await putProject(project);
+    return project;
+}
 
-export async function loadState(): Promise<AppState | null> {
+export async function renameProject(id: string, name: string): Promise<void> {
+    const project = await getProject(id);
+    if (!project) {
+        throw new Error('El proyecto no existe.');
+    }
+    await putProject({ ...project, name: name.trim() || project.name, updatedAt: new Date().toISOString() });
+}
+
+export async function duplicateProject(id: string, name: string): Promise<Project> {
+    const project = await getProject(id);
+    if (!project) {
+        throw new Error('El proyecto no existe.');
+    }
+    return createProject(name, structuredClone(project.state));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+    const store = await getStore('readwrite', PROJECTS_STORE_NAME);
+    await promisifyRequest(store.delete(id), 'Error al eliminar el proyecto');
+    await deleteAuditEntries(id);
+    if ((await getActiveProjectId()) === id) {
+        await setActiveProjectId(null);
+    }
+}
+
+export async function getActiveProjectId(): Promise<string | null> {
     try {
         const store = await getStore('readonly');
-        const request = store.get(STATE_KEY);
-    
-        return new Promise((resolve, reject) => {
-            request.onerror = () => reject('Error al cargar el estado');
-            request.onsuccess = () => {
-                // El resultado será el objeto { key: STATE_KEY, value: state }
-                if (request.result && request.result.value) {
-                    resolve(request.result.value as AppState);
-                } else {
-                    resolve(null); // No se encontraron datos
-                }
-            };
-        });
+        const record = await promisifyRequest(store.get(ACTIVE_PROJECT_KEY), 'Error al cargar el proyecto activo');
+        return (record?.value as string | undefined) ?? null;
     } catch (e) {
         console.error("No se pudo acceder a IndexedDB", e);
         return null;
     }
 }
 
-
-export async function clearState(): Promise<void> {
+export async function setActiveProjectId(id: string | null): Promise<void> {
     const store = await getStore('readwrite');
-    const request = store.clear();
-    return new Promise((resolve, reject) => {
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject('Error al limpiar la base de datos');
+    const request = id === null ? store.delete(ACTIVE_PROJECT_KEY) : store.put({ key: ACTIVE_PROJECT_KEY, value: id });
+    await promisifyRequest(request, 'Error al guardar el proyecto activo');
+}
+
+export async function saveState(projectId: string, state: AppState) {
+    const project = await getProject(projectId);
+    if (!project) {
+        console.error("Error al guardar el estado: el proyecto no existe", projectId);
+        return;
+    }
+    await putProject({ ...project, state, updatedAt: new Date().toISOString() });
+}
+
+
+export async function loadState(projectId: string): Promise<Project | null> {
+    try {
+        return await getProject(projectId);
+    } catch (e) {
+        console.error("No se pudo acceder a IndexedDB", e);
+        return null;
+    }
+}
+
+export async function addAuditEntry(entry: AuditEntry): Promise<void> {
+    const store = await getStore('readwrite', AUDIT_STORE_NAME);
+    await promisifyRequest(store.add(entry), 'Error al guardar el historial de cambios');
+}
+
+/**
+ * Devuelve el historial de cambios de un proyecto, del más reciente al más antiguo.
+ */
+export async function listAuditEntries(projectId: string): Promise<AuditEntry[]> {
+    const store = await getStore('readonly', AUDIT_STORE_NAME);
+    const entries = await promisifyRequest(store.index('projectId').getAll(projectId), 'Error al cargar el historial de cambios') as AuditEntry[];
+    return entries.sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+}
+
+async function deleteAuditEntries(projectId: string): Promise<void> {
+    const store = await getStore('readwrite', AUDIT_STORE_NAME);
+    const request = store.index('projectId').openCursor(IDBKeyRange.only(projectId));
+    await new Promise<void>((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            cursor.delete();
+            cursor.continue();
+        };
+        request.onerror = () => {
+            console.error('Error al eliminar el historial de cambios', request.error);
+            reject('Error al eliminar el historial de cambios');
+        };
     });
-}
\ No newline at end of file
+}
+
+// Nombre de quien usa la aplicación en este navegador, para firmar los cambios del historial.
+export async function getAuditUser(): Promise<string> {
+    try {
+        const store = await getStore('readonly');
+        const record = await promisifyRequest(store.get(AUDIT_USER_KEY), 'Error al cargar el usuario');
+        return (record?.value as string | undefined) ?? '';
+    } catch (e) {
+        console.error("No se pudo acceder a IndexedDB", e);
+        return '';
+    }
+}
+
+export async function setAuditUser(name: string): Promise<void> {
+    const store = await getStore('readwrite');
+    await promisifyRequest(store.put({ key: AUDIT_USER_KEY, value: name.trim() }), 'Error al guardar el usuario');
+}
+
+/**
+ * Lista los perfiles de mapeo de columnas guardados. Son comunes a todos los proyectos.
+ */
+export async function listMappingProfiles(): Promise<MappingProfile[]> {
+    try {
+        const store = await getStore('readonly');
+        const record = await promisifyRequest(store.get(MAPPING_PROFILES_KEY), 'Error al cargar los perfiles de mapeo');
+        return (record?.value as MappingProfile[] | undefined) ?? [];
+    } catch (e) {
+        console.error("No se pudo acceder a IndexedDB", e);
+        return [];
+    }
+}
+
+/**
+ * Guarda un mapeo confirmado como perfil. Un perfil con el mismo nombre se sustituye.
+ */
+export async function saveMappingProfile(name: string, headers: string[], mappings: MappingSuggestion[]): Promise<MappingProfile> {
+    const profile: MappingProfile = {
+        id: generateProjectId(),
+        name: name.trim(),
+        headers,
+        mappings: mappings.map(({ original, suggested }) => ({ original, suggested })),
+        createdAt: new Date().toISOString(),
+    };
+    const profiles = (await listMappingProfiles()).filter(p => p.name !== profile.name);
+    const store = await getStore('readwrite');
+    await promisifyRequest(store.put({ key: MAPPING_PROFILES_KEY, value: [...profiles, profile] }), 'Error al guardar el perfil de mapeo');
+    return profile;
+}
+
+export async function deleteMappingProfile(id: string): Promise<void> {
+    const profiles = (await listMappingProfiles()).filter(p => p.id !== id);
+    const store = await getStore('readwrite');
+    await promisifyRequest(store.put({ key: MAPPING_PROFILES_KEY, value: profiles }), 'Error al borrar el perfil de mapeo');
+}
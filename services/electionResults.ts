@@ -0,0 +1,123 @@
+import type { ElectionResult, ElectoralCollege } from '../types';
+import type { WorkcenterSeats } from './seatCalculation';
+import { COLLEGE_LABELS } from './electoralColleges';
+
+// Porcentaje mínimo de votos que necesita una lista para entrar en el reparto (art. 71.2.b ET)
+export const ELECTORAL_THRESHOLD = 0.05;
+
+// Una unidad electoral es un centro, o cada uno de sus colegios si eligen comité y están configurados.
+export interface ElectoralUnit {
+  key: string;
+  workcenter: string;
+  college: ElectoralCollege | null;
+  seats: number;
+  label: string;
+}
+
+export interface ListAllocation {
+  union: string;
+  votes: number;
+  share: number;
+  passesThreshold: boolean;
+  seats: number;
+  // Puestos obtenidos por resto mayor, además de los del cociente
+  remainderSeats: number;
+}
+
+export interface SeatAllocation {
+  quotient: number;
+  lists: ListAllocation[];
+  tie: boolean;
+  warnings: string[];
+}
+
+export const EMPTY_RESULT: ElectionResult = { validVotes: 0, blankVotes: 0, votesByUnion: {} };
+
+export const getResultKey = (workcenter: string, college: ElectoralCollege | null): string =>
+  college ? `${workcenter}#${college}` : workcenter;
+
+// Un centro da una unidad, o una por colegio si el reparto entre colegios está calculado.
+const toUnits = (workcenterSeats: WorkcenterSeats[]): ElectoralUnit[] =>
+  workcenterSeats
+    .flatMap(center => center.colleges
+      ? center.colleges
+          .filter(college => college.seats > 0)
+          .map(college => ({
+            key: getResultKey(center.workcenter, college.college),
+            workcenter: center.workcenter,
+            college: college.college,
+            seats: college.seats,
+            label: `${center.workcenter} · ${COLLEGE_LABELS[college.college]}`,
+          }))
+      : [{
+          key: getResultKey(center.workcenter, null),
+          workcenter: center.workcenter,
+          college: null,
+          seats: center.seats,
+          label: center.workcenter,
+        }]);
+
+/**
+ * Obtiene las unidades electorales en las que se reparten puestos por listas.
+ * Los centros con delegados de personal se eligen por mayoría de votos personales y no se incluyen.
+ * @param workcenterSeats El resumen de puestos por centro.
+ */
+export const getElectoralUnits = (workcenterSeats: WorkcenterSeats[]): ElectoralUnit[] =>
+  toUnits(workcenterSeats.filter(center => center.body === 'comite'));
+
+/**
+ * Obtiene las unidades en las que cada sindicato presenta una lista: todos los centros con puestos,
+ * separados por colegio en los que eligen comité.
+ * @param workcenterSeats El resumen de puestos por centro.
+ */
+export const getListUnits = (workcenterSeats: WorkcenterSeats[]): ElectoralUnit[] =>
+  toUnits(workcenterSeats.filter(center => center.seats > 0));
+
+/**
+ * Reparte los puestos de una unidad electoral entre las listas (art. 71.2.b ET).
+ * Solo entran las listas con al menos el 5% de los votos válidos. El cociente es la suma de los votos
+ * de esas listas entre los puestos a cubrir, y los puestos sobrantes van a los restos mayores.
+ * @param seats Los puestos a cubrir.
+ * @param result Los votos contados.
+ * @param unions Los sindicatos que concurren.
+ */
+export const allocateSeats = (seats: number, result: ElectionResult, unions: string[]): SeatAllocation => {
+  const warnings: string[] = [];
+  const listVotes = unions.reduce((sum, union) => sum + (result.votesByUnion[union] ?? 0), 0);
+  if (listVotes + result.blankVotes > result.validVotes) {
+    warnings.push('Los votos a listas y en blanco suman más que los votos válidos');
+  }
+
+  const lists: ListAllocation[] = unions.map(union => {
+    const votes = result.votesByUnion[union] ?? 0;
+    const share = result.validVotes > 0 ? votes / result.validVotes : 0;
+    return { union, votes, share, passesThreshold: votes > 0 && share >= ELECTORAL_THRESHOLD, seats: 0, remainderSeats: 0 };
+  });
+
+  const passing = lists.filter(list => list.passesThreshold);
+  const passingVotes = passing.reduce((sum, list) => sum + list.votes, 0);
+  if (seats === 0 || passingVotes === 0) {
+    return { quotient: 0, lists, tie: false, warnings };
+  }
+
+  const quotient = passingVotes / seats;
+  passing.forEach(list => { list.seats = Math.floor(list.votes / quotient); });
+
+  let remaining = seats - passing.reduce((sum, list) => sum + list.seats, 0);
+  const remainderOf = (list: ListAllocation) => list.votes - list.seats * quotient;
+  const byRemainder = [...passing].sort((a, b) => remainderOf(b) - remainderOf(a));
+  let tie = false;
+  byRemainder.forEach((list, index) => {
+    if (remaining === 0) return;
+    // El último puesto sobrante empatado con la lista siguiente se decide por sorteo
+    const next = byRemainder[index + 1];
+    if (remaining === 1 && next && remainderOf(next) === remainderOf(list)) tie = true;
+    list.seats++;
+    list.remainderSeats++;
+    remaining--;
+  });
+  if (tie) {
+    warnings.push('Empate en el resto mayor: el último puesto se decide por sorteo');
+  }
+  return { quotient, lists, tie, warnings };
+};
@@ -0,0 +1,167 @@
+import { addMonths, parseCensusDate } from './eligibility';
+
+// Plazos del procedimiento ante la mesa (art. 67 y 74 a 75 ET y RD 1844/1994)
+const CANDIDACY_DAYS = 9;
+const CENSUS_EXPOSURE_DAYS = 3;
+const PROCLAMATION_WORKING_DAYS = 2;
+const MIN_DAYS_PROCLAMATION_TO_VOTE = 5;
+const MAX_DAYS_MESA_TO_VOTE = 90;
+const ACTA_WORKING_DAYS = 3;
+
+export interface CalendarMilestone {
+  id: string;
+  label: string;
+  date: Date;
+  // Fin del plazo, para los hitos que duran varios días
+  endDate?: Date;
+  description: string;
+  isPast: boolean;
+}
+
+export interface ElectoralCalendar {
+  milestones: CalendarMilestone[];
+  warnings: string[];
+}
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Los días hábiles se cuentan de lunes a viernes; los festivos locales no se tienen en cuenta.
+const addWorkingDays = (date: Date, days: number): Date => {
+  let result = date;
+  let remaining = days;
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    if (result.getDay() !== 0 && result.getDay() !== 6) remaining--;
+  }
+  return result;
+};
+
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / 86400000);
+
+export const formatCalendarDate = (date: Date): string =>
+  date.toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+/**
+ * Deduce el calendario electoral completo a partir de la fecha tope de candidaturas y la de votación.
+ * Los hitos anteriores a la presentación de candidaturas se calculan hacia atrás como fechas límite.
+ * @param dates Las fechas configuradas (YYYY-MM-DD).
+ * @param today La fecha de referencia para avisar de los hitos ya pasados.
+ * @returns Los hitos en orden y los avisos sobre fechas imposibles o pasadas.
+ */
+export const buildElectoralCalendar = (
+  dates: { submissionDate: string; votingDate: string },
+  today: Date = new Date(),
+): ElectoralCalendar => {
+  const submission = parseCensusDate(dates.submissionDate);
+  const voting = parseCensusDate(dates.votingDate);
+  if (!submission || !voting) {
+    return { milestones: [], warnings: ['Indica la fecha de presentación de candidaturas y la de votación para calcular el calendario.'] };
+  }
+
+  const definitiveCensus = addDays(submission, -CANDIDACY_DAYS);
+  const provisionalCensus = addDays(definitiveCensus, -(CENSUS_EXPOSURE_DAYS + 1));
+  const mesa = addDays(provisionalCensus, -1);
+  const preaviso = addMonths(mesa, -1);
+  const proclamation = addWorkingDays(submission, PROCLAMATION_WORKING_DAYS);
+  const acta = addWorkingDays(voting, ACTA_WORKING_DAYS);
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+  const milestones: CalendarMilestone[] = [
+    { id: 'preaviso', label: 'Preaviso', date: preaviso, description: 'Último día para registrar el preaviso en la oficina pública y comunicarlo a la empresa (un mes antes del inicio del proceso).' },
+    { id: 'mesa', label: 'Constitución de la mesa', date: mesa, description: 'Inicio del proceso electoral. La empresa entrega el censo a la mesa.' },
+    { id: 'censo-provisional', label: 'Publicación del censo provisional', date: provisionalCensus, endDate: addDays(provisionalCensus, CENSUS_EXPOSURE_DAYS - 1), description: 'Exposición del censo durante 72 horas.' },
+    { id: 'reclamaciones-censo', label: 'Reclamaciones al censo', date: addDays(provisionalCensus, 1), endDate: addDays(definitiveCensus, -1), description: 'Plazo para reclamar inclusiones, exclusiones o errores en el censo.' },
+    { id: 'censo-definitivo', label: 'Publicación del censo definitivo', date: definitiveCensus, description: 'La mesa resuelve las reclamaciones y publica la lista definitiva de electores.' },
+    { id: 'candidaturas', label: 'Presentación de candidaturas', date: addDays(definitiveCensus, 1), endDate: submission, description: 'Plazo para presentar las listas de candidatos.' },
+    { id: 'proclamacion', label: 'Proclamación de candidaturas', date: proclamation, description: 'La mesa proclama las candidaturas presentadas.' },
+    { id: 'reclamaciones-proclamacion', label: 'Reclamaciones a la proclamación', date: addWorkingDays(proclamation, 1), description: 'Día hábil siguiente a la proclamación.' },
+    { id: 'votacion', label: 'Votación', date: voting, description: 'Jornada electoral, escrutinio y levantamiento del acta.' },
+    { id: 'acta', label: 'Entrega del acta', date: acta, description: 'Último día para presentar el acta en la oficina pública (tres días hábiles).' },
+  ].map(milestone => ({ ...milestone, isPast: (milestone.endDate ?? milestone.date) < startOfToday }));
+
+  const warnings: string[] = [];
+  if (voting <= submission) {
+    warnings.push('La votación debe ser posterior a la presentación de candidaturas.');
+  } else if (daysBetween(proclamation, voting) < MIN_DAYS_PROCLAMATION_TO_VOTE) {
+    warnings.push(`Entre la proclamación de candidaturas (${formatCalendarDate(proclamation)}) y la votación deben pasar al menos ${MIN_DAYS_PROCLAMATION_TO_VOTE} días.`);
+  }
+  if (daysBetween(mesa, voting) > MAX_DAYS_MESA_TO_VOTE) {
+    warnings.push(`Entre la constitución de la mesa (${formatCalendarDate(mesa)}) y la votación no pueden pasar más de ${MAX_DAYS_MESA_TO_VOTE} días.`);
+  }
+  if (voting < startOfToday) {
+    warnings.push('La fecha de votación ya ha pasado.');
+  } else {
+    milestones
+      .filter(milestone => milestone.isPast)
+      .forEach(milestone => warnings.push(`${milestone.label}: la fecha (${formatCalendarDate(milestone.endDate ?? milestone.date)}) ya ha pasado.`));
+  }
+  return { milestones, warnings };
+};
+
+const toICSDate = (date: Date): string =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+const escapeICSText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+// Longitud máxima de una línea de iCalendar en octetos (RFC 5545, 3.1), sin contar el salto de línea
+const ICS_LINE_OCTETS = 75;
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Parte las líneas largas en trozos de 75 octetos como pide el RFC 5545: cada trozo siguiente
+ * empieza por un espacio tras el salto de línea. Nunca se corta un carácter UTF-8 por la mitad.
+ */
+const foldICSLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Las líneas de continuación pierden un octeto por el espacio inicial
+    const limit = parts.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Genera un fichero iCalendar con un evento de día completo por cada hito.
+ * @param milestones Los hitos del calendario.
+ * @param title El nombre de la elección, que se antepone a cada evento.
+ */
+export const buildICS = (milestones: CalendarMilestone[], title: string): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const events = milestones.flatMap(milestone => [
+    'BEGIN:VEVENT',
+    `UID:${milestone.id}-${toICSDate(milestone.date)}@verificador-candidaturas`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toICSDate(milestone.date)}`,
+    // En los eventos de día completo, el fin no se incluye
+    `DTEND;VALUE=DATE:${toICSDate(addDays(milestone.endDate ?? milestone.date, 1))}`,
+    `SUMMARY:${escapeICSText(`${title}: ${milestone.label}`)}`,
+    `DESCRIPTION:${escapeICSText(milestone.description)}`,
+    'END:VEVENT',
+  ]);
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Dinosol//Verificador de Candidaturas//ES',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldICSLine).join('\r\n');
+};
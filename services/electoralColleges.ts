@@ -0,0 +1,92 @@
+import type { TableRow, ElectoralCollege, CollegeMapping } from '../types';
+
+export const COLLEGES: ElectoralCollege[] = ['tecnicos', 'especialistas'];
+
+export const COLLEGE_LABELS: Record<ElectoralCollege, string> = {
+  tecnicos: 'Técnicos y administrativos',
+  especialistas: 'Especialistas y no cualificados',
+};
+
+export const UNASSIGNED_COLLEGE_LABEL = 'Sin colegio asignado';
+
+// Sin columna no hay colegios: todo el censo vota en un único colegio
+export const EMPTY_COLLEGE_MAPPING: CollegeMapping = { column: '', assignments: {} };
+
+/**
+ * Busca la columna de categoría o grupo profesional del censo.
+ * @param headers Las cabeceras del censo.
+ */
+export const findCategoryColumn = (headers: string[]): string | undefined =>
+  headers.find(h => /grupo\s*prof/i.test(h)) ?? headers.find(h => /categor|grupo|puesto/i.test(h));
+
+/**
+ * Sugiere el colegio de una categoría por su nombre. Es solo un punto de partida que el usuario revisa.
+ * @param category El valor de la categoría.
+ */
+export const suggestCollege = (category: string): ElectoralCollege =>
+  /t[eé]cnic|administrativ|jef|encargad|titulad|gerent|director|coordinador|inform[aá]tic|oficina/i.test(category)
+    ? 'tecnicos'
+    : 'especialistas';
+
+/**
+ * Lista los valores distintos de la columna de categoría con el número de personas de cada uno.
+ * @param data Las filas del censo.
+ * @param column La columna de categoría.
+ */
+export const listCategoryValues = (data: TableRow[], column: string): { value: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  data.forEach(row => {
+    const value = String(row[column] ?? '').trim();
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+};
+
+/**
+ * Devuelve el colegio electoral de una fila según la asignación configurada.
+ * @returns El colegio, o `null` si no hay asignación o la categoría no está asignada.
+ */
+export const getCollege = (row: TableRow, mapping: CollegeMapping | undefined): ElectoralCollege | null => {
+  if (!mapping?.column) return null;
+  const category = String(row[mapping.column] ?? '').trim();
+  return mapping.assignments[category] ?? null;
+};
+
+export const getCollegeLabel = (row: TableRow, mapping: CollegeMapping | undefined): string => {
+  const college = getCollege(row, mapping);
+  return college ? COLLEGE_LABELS[college] : UNASSIGNED_COLLEGE_LABEL;
+};
+
+/**
+ * Reparte los puestos del comité entre los colegios en proporción a su plantilla (art. 71.1 ET).
+ * Las fracciones se adjudican al colegio con el resto más alto; en caso de empate la ley prevé sorteo,
+ * aquí se adjudica al primero y se avisa en la nota.
+ * @param seats Los puestos totales del comité.
+ * @param staffByCollege La plantilla de cada colegio.
+ */
+export const distributeSeatsByCollege = (
+  seats: number,
+  staffByCollege: Record<ElectoralCollege, number>,
+): { seatsByCollege: Record<ElectoralCollege, number>; tie: boolean } => {
+  const totalStaff = COLLEGES.reduce((sum, college) => sum + staffByCollege[college], 0);
+  const seatsByCollege: Record<ElectoralCollege, number> = { tecnicos: 0, especialistas: 0 };
+  if (totalStaff === 0 || seats === 0) {
+    return { seatsByCollege, tie: false };
+  }
+
+  const quotas = COLLEGES.map(college => ({ college, quota: (seats * staffByCollege[college]) / totalStaff }));
+  quotas.forEach(({ college, quota }) => { seatsByCollege[college] = Math.floor(quota); });
+
+  let remaining = seats - COLLEGES.reduce((sum, college) => sum + seatsByCollege[college], 0);
+  const byRemainder = [...quotas].sort((a, b) => (b.quota % 1) - (a.quota % 1));
+  const tie = remaining > 0 && byRemainder.length > 1 && byRemainder[0].quota % 1 === byRemainder[1].quota % 1
+    && staffByCollege.tecnicos > 0 && staffByCollege.especialistas > 0;
+  for (const { college } of byRemainder) {
+    if (remaining === 0) break;
+    seatsByCollege[college]++;
+    remaining--;
+  }
+  return { seatsByCollege, tie };
+};
@@ -0,0 +1,143 @@
+import type { TableRow, EligibilityRules } from '../types';
+import { expandTwoDigitYear } from './censusDates';
+
+type CheckedState = Record<number, Record<string, boolean>>;
+
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRules = {
+  candidateMinAge: 18,
+  candidateMinSeniorityMonths: 6,
+  electorMinAge: 16,
+  electorMinSeniorityMonths: 1,
+};
+
+export interface EligibilityIssue {
+  rowIndex: number;
+  role: 'candidato' | 'elector';
+  reasons: string[];
+}
+
+// Lo que incumple una fila según se la evalúe como candidato o como elector.
+export type RowEligibility = Record<EligibilityIssue['role'], string[]>;
+
+export interface EligibilityColumns {
+  birthDateColumn?: string;
+  seniorityColumn?: string;
+}
+
+/**
+ * Busca las columnas de fecha de nacimiento y de antigüedad del censo.
+ * @param headers Las cabeceras del censo.
+ */
+export const findEligibilityColumns = (headers: string[]): EligibilityColumns => ({
+  birthDateColumn: headers.find(h => /nacimiento|f\.?\s*nac/i.test(h)),
+  seniorityColumn:
+    headers.find(h => /antig[uü]edad/i.test(h)) ??
+    headers.find(h => /fecha.*(alta|ingreso|incorporaci)/i.test(h)),
+});
+
+/**
+ * Interpreta una fecha del censo. El parser deja las fechas como DD-MM-YYYY, pero las columnas
+ * que no contienen "fecha" en la cabecera pueden llegar en otros formatos.
+ * @param value El valor de la celda.
+ * @returns La fecha o `null` si no se puede interpretar.
+ */
+export const parseCensusDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'number' && value > 25569) {
+    // Número de serie de fecha de Excel
+    return new Date((value - 25569) * 86400 * 1000);
+  }
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (dmy) {
+    const year = expandTwoDigitYear(parseInt(dmy[3], 10));
+    const date = new Date(year, parseInt(dmy[2], 10) - 1, parseInt(dmy[1], 10));
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const ymd = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (ymd) {
+    return new Date(parseInt(ymd[1], 10), parseInt(ymd[2], 10) - 1, parseInt(ymd[3], 10));
+  }
+  return null;
+};
+
+// Suma meses a una fecha sin desbordar al mes siguiente (31 de enero + 1 mes = 28/29 de febrero).
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+};
+
+/**
+ * Evalúa la edad y la antigüedad de cada persona en la fecha de votación, como candidato y como elector.
+ * No depende de las marcas, así que las fechas del censo solo se leen cuando cambia el censo o las reglas.
+ * @param headers Las cabeceras del censo.
+ * @param data Las filas del censo.
+ * @param votingDate La fecha de votación (YYYY-MM-DD). Sin ella no se evalúa nada.
+ * @param rules Los umbrales configurados.
+ * @returns Los motivos de cada rol, solo para las filas que incumplen alguno.
+ */
+export const evaluateEligibility = (
+  headers: string[],
+  data: TableRow[],
+  votingDate: string,
+  rules: EligibilityRules,
+): Map<number, RowEligibility> => {
+  const evaluation = new Map<number, RowEligibility>();
+  const referenceDate = parseCensusDate(votingDate);
+  const { birthDateColumn, seniorityColumn } = findEligibilityColumns(headers);
+  if (!referenceDate || (!birthDateColumn && !seniorityColumn)) {
+    return evaluation;
+  }
+
+  const getReasons = (birthDate: Date | null, seniorityDate: Date | null, minAge: number, minSeniority: number) => {
+    const reasons: string[] = [];
+    if (birthDate && addMonths(birthDate, minAge * 12) > referenceDate) {
+      reasons.push(`Menor de ${minAge} años`);
+    }
+    if (seniorityDate && addMonths(seniorityDate, minSeniority) > referenceDate) {
+      reasons.push(`Antigüedad inferior a ${minSeniority} ${minSeniority === 1 ? 'mes' : 'meses'}`);
+    }
+    return reasons;
+  };
+
+  data.forEach((row, rowIndex) => {
+    const birthDate = birthDateColumn ? parseCensusDate(row[birthDateColumn]) : null;
+    const seniorityDate = seniorityColumn ? parseCensusDate(row[seniorityColumn]) : null;
+    if (!birthDate && !seniorityDate) return;
+
+    const candidato = getReasons(birthDate, seniorityDate, rules.candidateMinAge, rules.candidateMinSeniorityMonths);
+    const elector = getReasons(birthDate, seniorityDate, rules.electorMinAge, rules.electorMinSeniorityMonths);
+    if (candidato.length > 0 || elector.length > 0) {
+      evaluation.set(rowIndex, { candidato, elector });
+    }
+  });
+  return evaluation;
+};
+
+/**
+ * Elige las incidencias de cada fila según sus marcas: las personas marcadas en algún sindicato
+ * se evalúan como candidatos y el resto como electores.
+ * @param evaluation El resultado de `evaluateEligibility`.
+ * @param checkedState Las marcas de cada fila.
+ * @returns Las incidencias, indexadas por fila.
+ */
+export const checkEligibility = (
+  evaluation: Map<number, RowEligibility>,
+  checkedState: CheckedState,
+): Map<number, EligibilityIssue> => {
+  const issues = new Map<number, EligibilityIssue>();
+  evaluation.forEach((reasonsByRole, rowIndex) => {
+    const role = Object.values(checkedState[rowIndex] ?? {}).some(Boolean) ? 'candidato' : 'elector';
+    const reasons = reasonsByRole[role];
+    if (reasons.length > 0) {
+      issues.set(rowIndex, { rowIndex, role, reasons });
+    }
+  });
+  return issues;
+};
@@ -1,12 +1,40 @@
 import * as XLSX from 'xlsx';
-import Papa from 'papaparse';
-import type { TableRow } from '../types';
+import type { TableRow, ImportIssue } from '../types';
+import type { CellRows, TableLayout } from './tableLayout';
+import { detectTableLayout, buildTable, layoutNeedsReview } from './tableLayout';
+import type { CsvFormat } from './csvFormat';
+import { detectCsvFormat, parseCsv, convertDecimalCells } from './csvFormat';
+import { expandTwoDigitYear } from './censusDates';
 
 interface ParseResult {
   headers: string[];
   data: TableRow[];
+  // Filas omitidas, defectuosas o celdas convertidas durante la lectura, con su número de fila
+  issues: ImportIssue[];
 }
 
+// Una tabla leída de un archivo: el archivo entero (CSV, JSON) o una de las hojas de un Excel.
+// Las hojas y los CSV conservan sus filas celda a celda para poder cambiar la cabecera detectada.
+export interface ParsedSource extends ParseResult {
+  fileName: string;
+  sheetName?: string;
+  rows?: CellRows;
+  layout?: TableLayout;
+  // Los CSV guardan su contenido, el formato con que se leyeron y los errores de lectura, por si hay que leerlos de otra forma
+  csv?: { bytes: Uint8Array; format: CsvFormat; issues: ImportIssue[] };
+}
+
+// Avisa del avance de la lectura de un archivo: la fracción leída (0 a 1) y las filas leídas hasta ahora.
+export type ParseProgressHandler = (fraction: number, rowsRead: number) => void;
+
+// Resultado de unir varias fuentes en un único censo; las incidencias indican la fuente de cada fila.
+export interface MergedSources extends ParseResult {
+  warnings: string[];
+}
+
+// Columna añadida al unir varias fuentes con la hoja o el archivo del que viene cada fila.
+export const SOURCE_COLUMN = 'Origen';
+
 /**
  * Formats a Date object into a DD-MM-YYYY string.
  * @param date The date to format.
@@ -25,24 +53,32 @@ function formatDate(date: Date): string {
 /**
  * Iterates through data rows and formats any columns that look like dates into DD-MM-YYYY.
  * This function is robust and handles JS Date objects, Excel serial date numbers, and common string formats.
+ * Values that cannot be read as a date are left untouched and reported, as are guessed centuries.
  * @param data The array of data rows.
  * @param headers The complete list of headers.
- * @returns The processed data with formatted dates.
+ * @param lines The line in the file of each data row, used in the reported issues.
+ * @returns The processed data with formatted dates and the issues found.
  */
-function processDataForDates(data: TableRow[], headers: string[]): TableRow[] {
+function processDataForDates(data: TableRow[], headers: string[], lines: number[]): { data: TableRow[]; issues: ImportIssue[] } {
     // Encuentra todas las cabeceras que probablemente contengan fechas.
     const dateHeaders = headers.filter(h => h.toLowerCase().includes('fecha') || h.toLowerCase().includes('antigüedad'));
+    const issues: ImportIssue[] = [];
 
     // Si no hay columnas de fecha, devuelve los datos sin procesar.
     if (dateHeaders.length === 0) {
-        return data;
+        return { data, issues };
     }
 
-    return data.map(row => {
+    const processed = data.map((row, index) => {
         const newRow = { ...row };
         for (const header of dateHeaders) {
             const originalValue = newRow[header];
             let date: Date | null = null;
+            let coercion: string | null = null;
+
+            if (originalValue === null || originalValue === undefined || String(originalValue).trim() === '') {
+                continue;
+            }
 
             if (originalValue instanceof Date) {
                 // El valor ya es un objeto Date (común desde Excel con cellDates: true)
@@ -57,17 +93,24 @@ function processDataForDates(data: TableRow[], headers: string[]): TableRow[] {
                 if (parts) {
                     const day = parseInt(parts[1], 10);
                     const month = parseInt(parts[2], 10) - 1; // El mes en JS es 0-indexed
-                    let year = parseInt(parts[3], 10);
-                    if (year < 100) { // Asume años de 2 dígitos como del siglo XXI
-                        year += 2000;
+                    const year = expandTwoDigitYear(parseInt(parts[3], 10));
+                    if (parts[3].length <= 2) { // Años de 2 dígitos: el mismo siglo que usa la comprobación de edad
+                        coercion = `Año de dos cifras interpretado como ${year}`;
                     }
                     date = new Date(year, month, day);
+                    // Fechas inexistentes como el 31/02 no se desbordan al mes siguiente
+                    if (date.getDate() !== day || date.getMonth() !== month) {
+                        date = null;
+                    }
                 } else {
                     // Como fallback, intenta el parseo nativo del navegador (para formatos ISO, etc.)
                     const parsedDate = new Date(originalValue);
                     // Solo usa el resultado si parece una fecha válida
                     if (!isNaN(parsedDate.getTime())) {
                         date = parsedDate;
+                        if (!/^\d{4}-\d{2}-\d{2}/.test(originalValue.trim())) {
+                            coercion = 'Formato de fecha poco habitual, interpretado por el navegador';
+                        }
                     }
                 }
             }
@@ -75,52 +118,127 @@ function processDataForDates(data: TableRow[], headers: string[]): TableRow[] {
             // Si se pudo parsear una fecha válida, formatéala. Si no, deja el valor original.
             if (date && !isNaN(date.getTime()) && date.getFullYear() > 1000) {
                 newRow[header] = formatDate(date);
+                if (coercion) {
+                    issues.push({ kind: 'coerced', line: lines[index], column: header, value: String(originalValue), newValue: newRow[header], reason: coercion });
+                }
+            } else {
+                issues.push({ kind: 'malformed', line: lines[index], column: header, value: String(originalValue), reason: 'No se reconoce como fecha; se deja tal cual' });
             }
         }
         return newRow;
     });
+    return { data: processed, issues };
 }
 
 
 /**
- * Parses a file (CSV, JSON, XLSX, XLS) and returns its data as an array of objects.
+ * Collects the headers of the rows and formats their dates.
+ * Entries that are not objects are skipped and reported.
+ * @param items The entries read from the file.
+ * @returns The headers, the processed rows and the issues found.
+ */
+function buildParseResult(items: unknown[]): ParseResult {
+    const issues: ImportIssue[] = [];
+    const data: TableRow[] = [];
+    const lines: number[] = [];
+    items.forEach((item, index) => {
+        if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
+            data.push(item as TableRow);
+            lines.push(index + 1);
+        } else {
+            issues.push({ kind: 'skipped', line: index + 1, value: JSON.stringify(item), reason: 'El elemento no es un objeto con columnas' });
+        }
+    });
+    if (data.length === 0) {
+        return { headers: [], data: [], issues };
+    }
+    // Scan all rows to get a complete set of headers, ensuring no columns are missed
+    const allHeaders = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+    const processed = processDataForDates(data, allHeaders, lines);
+    return { headers: allHeaders, data: processed.data, issues: [...issues, ...processed.issues] };
+}
+
+/**
+ * Rebuilds a source from its raw rows using the given header row and data range.
+ * @param source A source read cell by cell (CSV or Excel sheet).
+ * @param layout The header row and last data row to use.
+ * @returns The source with its headers and data rebuilt.
+ */
+export const applyTableLayout = (source: ParsedSource, layout: TableLayout): ParsedSource => {
+    if (!source.rows) {
+        return source;
+    }
+    const table = buildTable(source.rows, layout);
+    // CSV cells are read as text; decimals are converted once the columns are known
+    const converted = source.csv
+        ? convertDecimalCells(table.data, table.headers, table.lines, source.csv.format.decimal)
+        : { data: table.data, issues: [] };
+    const processed = processDataForDates(converted.data, table.headers, table.lines);
+    return {
+        ...source,
+        layout,
+        headers: table.headers,
+        data: processed.data,
+        issues: [...(source.csv?.issues ?? []), ...table.issues, ...converted.issues, ...processed.issues],
+    };
+};
+
+/**
+ * Builds a source from raw rows, detecting the real header row and any footer rows.
+ */
+function buildSourceFromRows(fileName: string, rows: CellRows, sheetName?: string): ParsedSource {
+    return applyTableLayout({ fileName, sheetName, rows, headers: [], data: [], issues: [] }, detectTableLayout(rows));
+}
+
+/**
+ * Reads a CSV with the given encoding and separators, detecting its header row afterwards.
+ * Malformed lines do not stop the import; they are kept as issues on the source.
+ * Also used to read a CSV again with the encoding or separators chosen by the user.
+ */
+export const buildCsvSource = (fileName: string, bytes: Uint8Array, format: CsvFormat, onProgress?: ParseProgressHandler): ParsedSource => {
+    // La lectura del texto es lo más lento; la cabecera y las fechas se procesan al final
+    const { rows, issues } = parseCsv(bytes, format, undefined, (fraction, rowsRead) => onProgress?.(fraction * 0.9, rowsRead));
+    return applyTableLayout({ fileName, rows, headers: [], data: [], issues: [], csv: { bytes, format, issues } }, detectTableLayout(rows));
+};
+
+// Indica si la cabecera o el final detectados dejan filas fuera y conviene revisarlos.
+export const sourceNeedsReview = (source: ParsedSource): boolean =>
+    !!source.rows && !!source.layout && source.data.length > 0 && layoutNeedsReview(source.rows, source.layout);
+
+/**
+ * Parses a file (CSV, JSON, XLSX, XLS) and returns its tables as arrays of objects.
+ * Excel workbooks return one source per sheet with data; empty sheets are skipped.
+ * In CSV files and Excel sheets the header row is detected, skipping title blocks and footers.
+ * Large files take a while, so it is meant to run in a Web Worker (see `backgroundParser`).
  * @param file The file to parse.
- * @returns A promise that resolves with the headers and data from the file.
+ * @param onProgress Called as the file is read, with the fraction done and the rows read so far.
+ * @returns A promise that resolves with the headers and data of each table in the file.
  */
-export const parseFile = (file: File): Promise<ParseResult> => {
+export const parseFileSources = (file: File, onProgress?: ParseProgressHandler): Promise<ParsedSource[]> => {
   return new Promise((resolve, reject) => {
     const extension = file.name.split('.').pop()?.toLowerCase();
     
-    const processAndResolve = (data: TableRow[]) => {
-        if (data.length === 0) {
-            return resolve({ headers: [], data: [] });
-        }
-        // Scan all rows to get a complete set of headers, ensuring no columns are missed
-        const allHeaders = Array.from(new Set(data.flatMap(row => Object.keys(row))));
-        const processedData = processDataForDates(data, allHeaders);
-        resolve({ headers: allHeaders, data: processedData });
+    const processAndResolve = (data: unknown[]) => {
+        onProgress?.(0.5, data.length);
+        resolve([{ fileName: file.name, ...buildParseResult(data) }]);
     };
 
     if (extension === 'csv') {
-      Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (results) => {
-          if (results.errors.length > 0) {
-            return reject(new Error(results.errors.map(e => e.message).join('\n')));
-          }
-          if (!results.data) {
-            return resolve({ headers: [], data: [] });
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        try {
+          if (!event.target?.result) {
+            return reject(new Error('No se pudo leer el archivo CSV.'));
           }
-          const data = results.data.filter(row => 
-            typeof row === 'object' && row !== null && !Object.values(row).every(val => val === null || val === '')
-          ) as TableRow[];
-          processAndResolve(data);
-        },
-        error: (error: Error) => {
-          reject(new Error(`Error al parsear CSV: ${error.message}`));
-        },
-      });
+          // Encoding, delimiter and decimal separator are detected; the user can change them before importing
+          const bytes = new Uint8Array(event.target.result as ArrayBuffer);
+          resolve([buildCsvSource(file.name, bytes, detectCsvFormat(bytes), onProgress)]);
+        } catch (e) {
+          reject(new Error(`Error al parsear CSV: ${e instanceof Error ? e.message : 'error desconocido'}`));
+        }
+      };
+      reader.onerror = () => reject(new Error('Error al leer el archivo.'));
+      reader.readAsArrayBuffer(file);
     } else if (extension === 'json') {
       const reader = new FileReader();
       reader.onload = (event) => {
@@ -151,14 +269,26 @@ export const parseFile = (file: File): Promise<ParseResult> => {
             return reject(new Error('No se pudo leer el archivo de Excel.'));
           }
           const workbook = XLSX.read(event.target.result, { type: 'array' });
-          const sheetName = workbook.SheetNames[0];
-          if (!sheetName) {
+          if (workbook.SheetNames.length === 0) {
             return reject(new Error('El archivo de Excel no contiene hojas.'));
           }
-          const worksheet = workbook.Sheets[sheetName];
-          // Use `cellDates: true` to correctly parse Excel date serial numbers into JS Date objects
-          const data = XLSX.utils.sheet_to_json<TableRow>(worksheet, { cellDates: true });
-          processAndResolve(data);
+          // Abrir el libro es la mitad del trabajo; la otra mitad se reparte entre las hojas
+          onProgress?.(0.5, 0);
+          let rowsRead = 0;
+          const sources = workbook.SheetNames
+            .map((sheetName, index): ParsedSource => {
+              const worksheet = workbook.Sheets[sheetName];
+              // Use `cellDates: true` to correctly parse Excel date serial numbers into JS Date objects.
+              // Rows are read cell by cell (`header: 1`) so the real header row can be detected
+              const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: true, cellDates: true });
+              const source = buildSourceFromRows(file.name, rows, sheetName);
+              rowsRead += source.data.length;
+              onProgress?.(0.5 + 0.5 * (index + 1) / workbook.SheetNames.length, rowsRead);
+              return source;
+            })
+            .filter(source => source.data.length > 0);
+          // A workbook without data still yields its first sheet, so the caller reports it as empty
+          resolve(sources.length > 0 ? sources : [{ fileName: file.name, sheetName: workbook.SheetNames[0], headers: [], data: [], issues: [] }]);
         } catch (e) {
           if (e instanceof Error) {
             reject(new Error(`Error al procesar el archivo de Excel: ${e.message}`));
@@ -173,4 +303,76 @@ export const parseFile = (file: File): Promise<ParseResult> => {
       reject(new Error(`Tipo de archivo no soportado: .${extension}`));
     }
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Nombre legible de una fuente: la hoja, el archivo o ambos si hace falta distinguirlos.
+ */
+export const getSourceLabel = (source: ParsedSource, includeFileName = true): string => {
+  if (!source.sheetName) return source.fileName;
+  return includeFileName ? `${source.fileName} › ${source.sheetName}` : source.sheetName;
+};
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase();
+
+/**
+ * Describe las diferencias de columnas de cada fuente respecto a la primera,
+ * para avisar antes de unirlas. Devuelve una lista vacía si todas coinciden.
+ */
+export const describeHeaderDifferences = (sources: ParsedSource[]): string[] => {
+  if (sources.length < 2) return [];
+  const includeFileName = new Set(sources.map(s => s.fileName)).size > 1;
+  const reference = sources[0];
+  const referenceHeaders = new Set(reference.headers.map(normalizeHeader));
+
+  return sources.slice(1).flatMap(source => {
+    const headers = new Set(source.headers.map(normalizeHeader));
+    const missing = reference.headers.filter(h => !headers.has(normalizeHeader(h)));
+    const extra = source.headers.filter(h => !referenceHeaders.has(normalizeHeader(h)));
+    if (missing.length === 0 && extra.length === 0) return [];
+    const parts = [
+      missing.length > 0 ? `le faltan ${missing.join(', ')}` : '',
+      extra.length > 0 ? `tiene además ${extra.join(', ')}` : '',
+    ].filter(Boolean);
+    return [`${getSourceLabel(source, includeFileName)}: ${parts.join(' y ')} (respecto a ${getSourceLabel(reference, includeFileName)}).`];
+  });
+};
+
+/**
+ * Une varias fuentes en un único censo. Las columnas se alinean por su nombre
+ * (sin distinguir mayúsculas ni espacios sobrantes) y se conserva la forma en que aparecen por primera vez.
+ * Con más de una fuente se añade la columna `Origen` con la hoja o el archivo de cada fila.
+ * @param sources Las fuentes elegidas, en el orden en que se deben unir.
+ * @returns El censo unido y los avisos sobre columnas que no coinciden.
+ */
+export const mergeSources = (sources: ParsedSource[]): MergedSources => {
+  if (sources.length === 1) {
+    return { headers: sources[0].headers, data: sources[0].data, issues: sources[0].issues, warnings: [] };
+  }
+
+  const canonical = new Map<string, string>();
+  sources.forEach(source => source.headers.forEach(header => {
+    const key = normalizeHeader(header);
+    if (!canonical.has(key)) canonical.set(key, header);
+  }));
+  const includeFileName = new Set(sources.map(s => s.fileName)).size > 1;
+
+  const data = sources.flatMap(source => {
+    const label = getSourceLabel(source, includeFileName);
+    return source.data.map(row => {
+      const newRow: TableRow = {};
+      Object.keys(row).forEach(key => {
+        newRow[canonical.get(normalizeHeader(key)) ?? key] = row[key];
+      });
+      newRow[SOURCE_COLUMN] = label;
+      return newRow;
+    });
+  });
+
+  return {
+    headers: [...Array.from(canonical.values()).filter(header => header !== SOURCE_COLUMN), SOURCE_COLUMN],
+    data,
+    issues: sources.flatMap(source => source.issues.map(issue => ({ ...issue, source: getSourceLabel(source, includeFileName) }))),
+    warnings: describeHeaderDifferences(sources),
+  };
+};
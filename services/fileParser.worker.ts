@@ -0,0 +1,62 @@
+import { parseFileSources, buildCsvSource } from './fileParser';
+import type { ParsedSource, ParseProgressHandler } from './fileParser';
+import type { ParseWorkerMessage, ParseWorkerRequest } from './backgroundParser';
+
+// Tiempo mínimo entre avisos de progreso, para no saturar el hilo principal de mensajes
+const PROGRESS_INTERVAL_MS = 100;
+
+// Un archivo que leer: su nombre y tamaño para el progreso, y cómo leerlo.
+interface ParseJob {
+  fileName: string;
+  size: number;
+  run: (onProgress: ParseProgressHandler) => Promise<ParsedSource[]>;
+}
+
+const post = (message: ParseWorkerMessage) => self.postMessage(message);
+
+const getJobs = (request: ParseWorkerRequest): ParseJob[] =>
+  request.type === 'files'
+    ? request.files.map(file => ({
+        fileName: file.name,
+        size: file.size,
+        run: onProgress => parseFileSources(file, onProgress),
+      }))
+    : request.items.map(item => ({
+        fileName: item.fileName,
+        size: item.bytes.byteLength,
+        run: async onProgress => [buildCsvSource(item.fileName, item.bytes, item.format, onProgress)],
+      }));
+
+// Lee los archivos uno tras otro; el porcentaje se reparte según el tamaño de cada archivo.
+self.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const jobs = getJobs(event.data);
+  const totalSize = jobs.reduce((sum, job) => sum + job.size, 0) || 1;
+  let doneSize = 0;
+  let doneRows = 0;
+  let lastPost = 0;
+
+  try {
+    const sources: ParsedSource[] = [];
+    for (const job of jobs) {
+      const jobSources = await job.run((fraction, rowsRead) => {
+        const now = Date.now();
+        if (now - lastPost < PROGRESS_INTERVAL_MS) return;
+        lastPost = now;
+        post({
+          type: 'progress',
+          progress: {
+            fileName: job.fileName,
+            rowsRead: doneRows + rowsRead,
+            percent: Math.round(100 * (doneSize + fraction * job.size) / totalSize),
+          },
+        });
+      });
+      sources.push(...jobSources);
+      doneSize += job.size;
+      doneRows += jobSources.reduce((sum, source) => sum + source.data.length, 0);
+    }
+    post({ type: 'done', sources });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : 'Ocurrió un error desconocido.' });
+  }
+};
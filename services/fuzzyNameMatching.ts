@@ -0,0 +1,134 @@
+// Partículas que no aportan a la identidad de un nombre español ("María DE LA Cruz", "Pérez Y Gómez").
+const PARTICLES = new Set(['de', 'del', 'la', 'las', 'los', 'el', 'y', 'e', 'i', 'da', 'do', 'dos', 'van', 'von']);
+
+// Abreviaturas habituales en listas escritas a mano o exportadas de nóminas.
+const ABBREVIATIONS: Record<string, string> = {
+  ma: 'maria',
+  mari: 'maria',
+  fco: 'francisco',
+  fdo: 'fernando',
+  jse: 'jose',
+  ant: 'antonio',
+  anto: 'antonio',
+  jes: 'jesus',
+  fdez: 'fernandez',
+  fndez: 'fernandez',
+  glez: 'gonzalez',
+  gzlez: 'gonzalez',
+  rguez: 'rodriguez',
+  rodz: 'rodriguez',
+  hdez: 'hernandez',
+  hrdez: 'hernandez',
+  mtnez: 'martinez',
+  mtez: 'martinez',
+  mtz: 'martinez',
+  lpez: 'lopez',
+  gcia: 'garcia',
+  gca: 'garcia',
+  dguez: 'dominguez',
+  sdez: 'sanchez',
+};
+
+/**
+ * Convierte un nombre en sus partes significativas: sin tildes, sin partículas,
+ * con las abreviaturas desarrolladas y separando los apellidos compuestos con guion.
+ * @param name El nombre completo tal como aparece en el censo.
+ * @returns Las partes del nombre normalizadas.
+ */
+export const tokenizeSpanishName = (name: string): string[] =>
+  String(name ?? '')
+    .toLowerCase()
+    .replace(/ª/g, 'a ') // "Mª" -> "ma"
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => ABBREVIATIONS[token] ?? token)
+    .filter(token => !PARTICLES.has(token));
+
+/**
+ * Similitud Jaro-Winkler entre dos palabras, entre 0 y 1.
+ */
+const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Similitud entre dos partes de nombre. Una inicial ("J.") se considera compatible
+ * con cualquier palabra que empiece por esa letra, pero con menos confianza.
+ */
+const tokenSimilarity = (a: string, b: string): number => {
+  if (a.length === 1 || b.length === 1) {
+    return a[0] === b[0] ? 0.8 : 0;
+  }
+  // Las palabras parecidas pero no iguales ("Juan"/"Juana") nunca puntúan como una coincidencia exacta
+  return a === b ? 1 : 0.9 * jaroWinkler(a, b);
+};
+
+/**
+ * Puntúa la probabilidad de que dos nombres correspondan a la misma persona, entre 0 y 1.
+ * No depende del orden de las palabras, así que "Pérez García, Ana" y "Ana Pérez García" coinciden.
+ * @param nameA El primer nombre completo.
+ * @param nameB El segundo nombre completo.
+ * @returns La puntuación de similitud.
+ */
+export const scoreNameSimilarity = (nameA: string, nameB: string): number => {
+  const tokensA = tokenizeSpanishName(nameA);
+  const tokensB = tokenizeSpanishName(nameB);
+  // Con una sola palabra no hay información suficiente para sugerir un duplicado.
+  if (tokensA.length < 2 || tokensB.length < 2) return 0;
+
+  // Emparejamiento voraz de las palabras más parecidas entre sí
+  const pairs: { i: number; j: number; score: number }[] = [];
+  tokensA.forEach((a, i) => tokensB.forEach((b, j) => pairs.push({ i, j, score: tokenSimilarity(a, b) })));
+  pairs.sort((x, y) => y.score - x.score);
+
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  let matched = 0;
+  for (const { i, j, score } of pairs) {
+    if (usedA.has(i) || usedB.has(j) || score < 0.75) continue;
+    usedA.add(i);
+    usedB.add(j);
+    matched += score;
+  }
+
+  const shorter = Math.min(tokensA.length, tokensB.length);
+  const coverage = matched / shorter; // ¿Está el nombre corto contenido en el largo?
+  const overall = (2 * matched) / (tokensA.length + tokensB.length); // Penaliza las palabras sobrantes
+  return Math.min(1, 0.6 * coverage + 0.4 * overall);
+};
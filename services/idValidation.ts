@@ -0,0 +1,103 @@
+import type { TableRow } from '../types';
+
+const CONTROL_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+const NIE_PREFIXES: Record<string, string> = { X: '0', Y: '1', Z: '2' };
+
+export type IdStatus = 'valid' | 'missing' | 'malformed' | 'invalid-letter';
+
+export interface IdValidationResult {
+  status: IdStatus;
+  normalized: string;
+  message: string;
+}
+
+export interface DataQualityIssue {
+  rowIndex: number;
+  column: string;
+  value: string;
+  status: Exclude<IdStatus, 'valid'>;
+  message: string;
+}
+
+/**
+ * Busca la columna de identificadores (DNI/NIF/NIE) del censo,
+ * prefiriendo las cabeceras en las que aparece como palabra completa.
+ * @param headers Las cabeceras del archivo.
+ * @returns La cabecera encontrada o `undefined` si no hay ninguna.
+ */
+export const findIdColumn = (headers: string[]): string | undefined =>
+  headers.find(h => /\b(dni|nif|nie)\b/i.test(h)) ?? headers.find(h => /dni|nif|nie/i.test(h));
+
+/**
+ * Valida un DNI o NIE español comprobando su formato y su letra de control.
+ * Acepta DNI a los que Excel les ha quitado los ceros iniciales.
+ * @param value El valor de la celda.
+ * @returns El estado de la validación y el identificador normalizado.
+ */
+export const validateSpanishId = (value: unknown): IdValidationResult => {
+  const normalized = String(value ?? '').toUpperCase().replace(/[\s.\-_/]/g, '');
+  if (!normalized) {
+    return { status: 'missing', normalized, message: 'Identificador vacío' };
+  }
+
+  const dniMatch = normalized.match(/^(\d{1,8})([A-Z])$/);
+  const nieMatch = normalized.match(/^([XYZ])(\d{7})([A-Z])$/);
+
+  let digits: string;
+  let letter: string;
+  if (dniMatch) {
+    digits = dniMatch[1].padStart(8, '0');
+    letter = dniMatch[2];
+  } else if (nieMatch) {
+    digits = NIE_PREFIXES[nieMatch[1]] + nieMatch[2];
+    letter = nieMatch[3];
+  } else {
+    return { status: 'malformed', normalized, message: 'Formato no reconocido como DNI ni NIE' };
+  }
+
+  const expectedLetter = CONTROL_LETTERS[parseInt(digits, 10) % 23];
+  if (letter !== expectedLetter) {
+    return { status: 'invalid-letter', normalized, message: `Letra de control incorrecta (debería ser ${expectedLetter})` };
+  }
+  return { status: 'valid', normalized, message: '' };
+};
+
+/**
+ * Revisa la columna de identificadores de todo el censo y devuelve las filas con problemas.
+ * @param headers Las cabeceras del censo.
+ * @param data Las filas del censo.
+ * @returns Las incidencias encontradas, en el orden de las filas.
+ */
+export const getDataQualityIssues = (headers: string[], data: TableRow[]): DataQualityIssue[] => {
+  const idColumn = findIdColumn(headers);
+  if (!idColumn) return [];
+
+  const issues: DataQualityIssue[] = [];
+  data.forEach((row, rowIndex) => {
+    const result = validateSpanishId(row[idColumn]);
+    if (result.status !== 'valid') {
+      issues.push({
+        rowIndex,
+        column: idColumn,
+        value: String(row[idColumn] ?? ''),
+        status: result.status,
+        message: result.message,
+      });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Oculta parte de un identificador para publicarlo, mostrando solo cuatro cifras centrales
+ * (criterio de la AEPD para la publicación de DNI: ***4567**).
+ * @param value El valor de la celda.
+ */
+export const maskId = (value: unknown): string => {
+  const normalized = String(value ?? '').toUpperCase().replace(/[\s.\-_/]/g, '');
+  if (normalized.length < 7) return '*'.repeat(normalized.length);
+  return normalized
+    .split('')
+    .map((char, index) => (index >= 3 && index < 7 ? char : '*'))
+    .join('');
+};
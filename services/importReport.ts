@@ -0,0 +1,50 @@
+import type { ImportIssue, ImportReport } from '../types';
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssue['kind'], string> = {
+  skipped: 'Fila omitida',
+  malformed: 'Valor defectuoso',
+  coerced: 'Valor convertido',
+};
+
+/**
+ * Reúne lo ocurrido en una importación, con las incidencias ordenadas por origen y número de fila.
+ * @param fileName El archivo o archivos importados.
+ * @param rowCount Las filas que se cargaron en el censo.
+ * @param notes Avisos generales, como las columnas que no coinciden entre hojas.
+ * @param issues Las incidencias de filas y celdas.
+ */
+export const buildImportReport = (fileName: string, rowCount: number, notes: string[], issues: ImportIssue[]): ImportReport => ({
+  fileName,
+  importedAt: new Date().toISOString(),
+  rowCount,
+  notes,
+  issues: [...issues].sort((a, b) =>
+    (a.source ?? '').localeCompare(b.source ?? '') || (a.line ?? 0) - (b.line ?? 0)
+  ),
+});
+
+export const countIssuesByKind = (issues: ImportIssue[]): Record<ImportIssue['kind'], number> => {
+  const counts: Record<ImportIssue['kind'], number> = { skipped: 0, malformed: 0, coerced: 0 };
+  issues.forEach(issue => {
+    counts[issue.kind]++;
+  });
+  return counts;
+};
+
+// Indica si hay algo que contar al usuario tras importar.
+export const reportHasFindings = (report: ImportReport): boolean =>
+  report.issues.length > 0 || report.notes.length > 0;
+
+/**
+ * Filas del informe listas para descargar como CSV.
+ */
+export const getImportReportRows = (report: ImportReport): Record<string, string | number>[] =>
+  report.issues.map(issue => ({
+    'Tipo': IMPORT_ISSUE_LABELS[issue.kind],
+    'Origen': issue.source ?? report.fileName,
+    'Fila': issue.line ?? '',
+    'Columna': issue.column ?? '',
+    'Valor original': issue.value ?? '',
+    'Valor importado': issue.newValue ?? '',
+    'Motivo': issue.reason,
+  }));
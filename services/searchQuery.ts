@@ -0,0 +1,210 @@
+import type { TableRow } from '../types';
+
+type CheckedState = Record<number, Record<string, boolean>>;
+
+// Condición de búsqueda ya interpretada. Todas deben cumplirse a la vez.
+export type SearchClause =
+  | { kind: 'text'; value: string; negated: boolean }
+  | { kind: 'column'; columns: number[]; value: string; negated: boolean }
+  | { kind: 'union'; union: string; negated: boolean }
+  | { kind: 'duplicate'; value: boolean; negated: boolean }
+  | { kind: 'unmarked'; negated: boolean };
+
+// Fila preparada para buscar: el texto de toda la fila y el de cada columna, ya normalizados.
+export interface SearchableRow {
+  originalIndex: number;
+  searchableString: string;
+  columns: string[];
+}
+
+// Marcas necesarias para los filtros de sindicato, duplicados y sin marcar.
+export interface SearchMarkContext {
+  checkedState: CheckedState;
+  duplicateRows: Set<number>;
+}
+
+interface SearchToken {
+  negated: boolean;
+  key: string | null;
+  value: string;
+}
+
+const UNION_KEYS = ['sindicato', 'marca'];
+const DUPLICATE_KEY = 'duplicado';
+const UNMARKED_TERM = 'sin-marcar';
+const FALSE_VALUES = ['no', 'false', '0'];
+
+/**
+ * Normaliza un texto: lo convierte a minúsculas, le quita tildes y signos de puntuación.
+ * Esto hace que las comparaciones de texto sean insensibles a mayúsculas, acentos y puntuación.
+ * @param text El texto a normalizar.
+ * @returns El texto normalizado.
+ */
+export const normalizeText = (text: string): string => {
+  if (!text) return '';
+  return text
+    .normalize("NFD") // Separa los caracteres base de los diacríticos (tildes)
+    .replace(/[\u0300-\u036f]/g, "") // Elimina los diacríticos
+    .toLowerCase() // Convierte a minúsculas
+    .replace(/[.,/#!$%^&*;:{}=\-_`~()]/g, ""); // Elimina puntuación común
+};
+
+/**
+ * Trocea la búsqueda respetando las frases entre comillas, el prefijo `-` de negación
+ * y los pares `clave:valor` (el valor también puede ir entre comillas).
+ */
+const tokenize = (input: string): SearchToken[] => {
+  const tokens: SearchToken[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const end = input.indexOf('"', i + 1);
+    const value = end === -1 ? input.slice(i + 1) : input.slice(i + 1, end);
+    i = end === -1 ? input.length : end + 1;
+    return value;
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === '"') {
+      tokens.push({ negated, key: null, value: readQuoted() });
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i]) && input[i] !== ':' && input[i] !== '"') {
+      i++;
+    }
+    const word = input.slice(start, i);
+
+    if (input[i] === ':' && word) {
+      i++;
+      const value = input[i] === '"' ? readQuoted() : input.slice(i, (i = findTokenEnd(input, i)));
+      tokens.push({ negated, key: word, value });
+    } else {
+      // Un texto pegado a unas comillas se toma hasta el final del token
+      const end = findTokenEnd(input, i);
+      tokens.push({ negated, key: null, value: word + input.slice(i, end) });
+      i = end;
+    }
+  }
+  return tokens;
+};
+
+const findTokenEnd = (input: string, from: number): number => {
+  let end = from;
+  while (end < input.length && !/\s/.test(input[end])) {
+    end++;
+  }
+  return end;
+};
+
+/**
+ * Interpreta la búsqueda escrita en el buscador.
+ *
+ * - Palabras sueltas y `"frases entre comillas"` se buscan en toda la fila.
+ * - `columna:valor` busca solo en las columnas cuyo nombre contiene `columna`;
+ *   sin valor (`dni:`) exige que la columna tenga algún dato.
+ * - `sindicato:CCOO`, `duplicado:si` y `sin-marcar` filtran por las marcas.
+ * - Un `-` delante niega cualquier condición (`-dni:` = sin DNI).
+ *
+ * Una clave que no corresponde a ninguna columna se busca como texto normal.
+ */
+export const parseSearchQuery = (input: string, headers: string[]): SearchClause[] => {
+  const normalizedHeaders = headers.map(normalizeText);
+  const clauses: SearchClause[] = [];
+
+  tokenize(input).forEach(({ negated, key, value }) => {
+    if (key === null) {
+      if (value.toLowerCase() === UNMARKED_TERM) {
+        clauses.push({ kind: 'unmarked', negated });
+        return;
+      }
+      const text = normalizeText(value);
+      if (text.trim()) {
+        clauses.push({ kind: 'text', value: text, negated });
+      }
+      return;
+    }
+
+    const normalizedKey = normalizeText(key);
+    const normalizedValue = normalizeText(value);
+    if (UNION_KEYS.includes(normalizedKey)) {
+      clauses.push({ kind: 'union', union: normalizedValue, negated });
+      return;
+    }
+    if (normalizedKey === DUPLICATE_KEY) {
+      clauses.push({ kind: 'duplicate', value: !FALSE_VALUES.includes(normalizedValue), negated });
+      return;
+    }
+
+    const columns = normalizedKey
+      ? normalizedHeaders.flatMap((header, index) => header.includes(normalizedKey) ? [index] : [])
+      : [];
+    if (columns.length > 0) {
+      clauses.push({ kind: 'column', columns, value: normalizedValue, negated });
+      return;
+    }
+
+    const text = normalizeText(`${key}:${value}`);
+    if (text.trim()) {
+      clauses.push({ kind: 'text', value: text, negated });
+    }
+  });
+
+  return clauses;
+};
+
+// Indica si la búsqueda necesita conocer las marcas (y, por tanto, repetirse al marcar).
+export const searchUsesMarks = (clauses: SearchClause[]): boolean =>
+  clauses.some(clause => clause.kind === 'union' || clause.kind === 'duplicate' || clause.kind === 'unmarked');
+
+export const searchUsesDuplicates = (clauses: SearchClause[]): boolean =>
+  clauses.some(clause => clause.kind === 'duplicate');
+
+/**
+ * Prepara las filas para la búsqueda una sola vez, al cargar el censo.
+ */
+export const buildSearchableRows = (headers: string[], data: { row: TableRow; originalIndex: number }[]): SearchableRow[] =>
+  data.map(({ row, originalIndex }) => {
+    const columns = headers.map(header => normalizeText(String(row[header] ?? '')));
+    return {
+      originalIndex,
+      searchableString: normalizeText(Object.values(row).join(' ')),
+      columns,
+    };
+  });
+
+const matchesClause = (clause: SearchClause, item: SearchableRow, marks: SearchMarkContext | null): boolean => {
+  const rowMarks = marks?.checkedState[item.originalIndex] ?? {};
+  switch (clause.kind) {
+    case 'text':
+      return item.searchableString.includes(clause.value);
+    case 'column':
+      return clause.columns.some(index => {
+        const cell = item.columns[index] ?? '';
+        return clause.value ? cell.includes(clause.value) : cell.trim() !== '';
+      });
+    case 'union':
+      return Object.entries(rowMarks).some(([union, isChecked]) =>
+        isChecked && (!clause.union || normalizeText(union) === clause.union)
+      );
+    case 'duplicate':
+      return (marks?.duplicateRows.has(item.originalIndex) ?? false) === clause.value;
+    case 'unmarked':
+      return !Object.values(rowMarks).some(Boolean);
+  }
+};
+
+export const matchesSearchQuery = (clauses: SearchClause[], item: SearchableRow, marks: SearchMarkContext | null): boolean =>
+  clauses.every(clause => matchesClause(clause, item, marks) !== clause.negated);
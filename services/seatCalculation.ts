@@ -0,0 +1,183 @@
+import type { TableRow, CollegeMapping, ElectoralCollege } from '../types';
+import { COLLEGES, getCollege, distributeSeatsByCollege } from './electoralColleges';
+
+type CheckedState = Record<number, Record<string, boolean>>;
+
+export type RepresentativeBody = 'delegados' | 'comite' | 'ninguno';
+
+export interface CollegeSeats {
+  college: ElectoralCollege;
+  staff: number;
+  seats: number;
+  candidatesByUnion: Record<string, number>;
+}
+
+export interface WorkcenterSeats {
+  workcenter: string;
+  staff: number;
+  body: RepresentativeBody;
+  seats: number;
+  note?: string;
+  // Candidatos marcados en cada sindicato dentro del centro
+  candidatesByUnion: Record<string, number>;
+  // Desglose por colegio electoral, solo en centros con comité y con colegios configurados
+  colleges?: CollegeSeats[];
+  unassignedStaff?: number;
+}
+
+// Plantilla y puestos de un centro, que solo cambian con el censo o con la asignación de colegios.
+export type WorkcenterStaff = Omit<WorkcenterSeats, 'candidatesByUnion' | 'colleges'> & {
+  colleges?: Omit<CollegeSeats, 'candidatesByUnion'>[];
+};
+
+export interface StaffByWorkcenter {
+  workcenters: WorkcenterStaff[];
+  // Centro y colegio de cada fila, para contar las marcas sin volver a leer el censo
+  rowUnits: { workcenter: string; college: ElectoralCollege | null }[];
+}
+
+export const NO_WORKCENTER_LABEL = 'Sin centro';
+export const SINGLE_WORKCENTER_LABEL = 'Centro único';
+
+export const BODY_LABELS: Record<RepresentativeBody, string> = {
+  delegados: 'Delegados de personal',
+  comite: 'Comité de empresa',
+  ninguno: 'Sin representación',
+};
+
+/**
+ * Busca la columna del centro de trabajo en el censo.
+ * @param headers Las cabeceras del censo.
+ */
+export const findWorkcenterColumn = (headers: string[]): string | undefined =>
+  headers.find(h => /centro/i.test(h)) ?? headers.find(h => /tienda|establecimiento|sede/i.test(h));
+
+/**
+ * Devuelve el nombre del centro de una fila, agrupando los vacíos bajo una misma etiqueta.
+ */
+export const getWorkcenter = (row: TableRow, workcenterColumn: string | undefined): string => {
+  if (!workcenterColumn) return SINGLE_WORKCENTER_LABEL;
+  return String(row[workcenterColumn] ?? '').trim() || NO_WORKCENTER_LABEL;
+};
+
+/**
+ * Calcula el órgano de representación y el número de puestos según la plantilla
+ * (artículos 62 y 66 del Estatuto de los Trabajadores).
+ * @param staff El número de trabajadores del centro.
+ */
+export const computeSeats = (staff: number): Pick<WorkcenterSeats, 'body' | 'seats' | 'note'> => {
+  if (staff < 6) {
+    return { body: 'ninguno', seats: 0, note: 'Menos de 6 trabajadores' };
+  }
+  if (staff <= 10) {
+    return { body: 'delegados', seats: 1, note: 'Solo si lo decide la mayoría de la plantilla' };
+  }
+  if (staff <= 30) return { body: 'delegados', seats: 1 };
+  if (staff <= 49) return { body: 'delegados', seats: 3 };
+  if (staff <= 100) return { body: 'comite', seats: 5 };
+  if (staff <= 250) return { body: 'comite', seats: 9 };
+  if (staff <= 500) return { body: 'comite', seats: 13 };
+  if (staff <= 750) return { body: 'comite', seats: 17 };
+  if (staff <= 1000) return { body: 'comite', seats: 21 };
+  // Dos más por cada mil o fracción, con un máximo de 75
+  return { body: 'comite', seats: Math.min(75, 21 + 2 * Math.ceil((staff - 1000) / 1000)) };
+};
+
+/**
+ * Agrupa el censo por centro de trabajo, cuenta la plantilla y calcula los puestos a elegir en cada uno.
+ * No depende de las marcas: los candidatos se cuentan aparte con `computeWorkcenterSeats`.
+ * @param headers Las cabeceras del censo.
+ * @param data Las filas del censo.
+ * @param collegeMapping La asignación de categorías a colegios electorales, si se ha configurado.
+ * @returns La plantilla de cada centro, ordenada alfabéticamente, y el centro y colegio de cada fila.
+ */
+export const computeWorkcenterStaff = (
+  headers: string[],
+  data: TableRow[],
+  collegeMapping?: CollegeMapping,
+): StaffByWorkcenter => {
+  const workcenterColumn = findWorkcenterColumn(headers);
+  const groups = new Map<string, {
+    staff: number;
+    colleges: Record<ElectoralCollege, number>;
+    unassignedStaff: number;
+  }>();
+
+  const rowUnits = data.map(row => {
+    const workcenter = getWorkcenter(row, workcenterColumn);
+    if (!groups.has(workcenter)) {
+      groups.set(workcenter, { staff: 0, colleges: { tecnicos: 0, especialistas: 0 }, unassignedStaff: 0 });
+    }
+    const group = groups.get(workcenter)!;
+    const college = getCollege(row, collegeMapping);
+    group.staff++;
+    if (college) {
+      group.colleges[college]++;
+    } else {
+      group.unassignedStaff++;
+    }
+    return { workcenter, college };
+  });
+
+  const workcenters = Array.from(groups.entries())
+    .map(([workcenter, group]) => {
+      const seats = computeSeats(group.staff);
+      const result: WorkcenterStaff = { workcenter, staff: group.staff, ...seats };
+      if (collegeMapping?.column && seats.body === 'comite') {
+        const { seatsByCollege, tie } = distributeSeatsByCollege(seats.seats, group.colleges);
+        result.colleges = COLLEGES.map(college => ({
+          college,
+          staff: group.colleges[college],
+          seats: seatsByCollege[college],
+        }));
+        result.unassignedStaff = group.unassignedStaff;
+        if (tie) {
+          result.note = 'Empate en el reparto entre colegios: el último puesto se decide por sorteo';
+        }
+      }
+      return result;
+    })
+    .sort((a, b) => a.workcenter.localeCompare(b.workcenter));
+
+  return { workcenters, rowUnits };
+};
+
+/**
+ * Añade a la plantilla de cada centro los candidatos marcados en cada sindicato (y en cada colegio).
+ * Solo recorre las filas con marcas, así que se puede recalcular en cada marca.
+ * @param staff El resultado de `computeWorkcenterStaff`.
+ * @param checkedState Las marcas de cada fila.
+ * @param unions Los sindicatos a contar.
+ * @returns Un resumen por centro, ordenado alfabéticamente.
+ */
+export const computeWorkcenterSeats = (
+  { workcenters, rowUnits }: StaffByWorkcenter,
+  checkedState: CheckedState,
+  unions: string[],
+): WorkcenterSeats[] => {
+  const emptyCounts = () => Object.fromEntries(unions.map(u => [u, 0])) as Record<string, number>;
+  const counts = new Map(workcenters.map(({ workcenter }) => [workcenter, {
+    candidatesByUnion: emptyCounts(),
+    colleges: { tecnicos: emptyCounts(), especialistas: emptyCounts() } as Record<ElectoralCollege, Record<string, number>>,
+  }]));
+
+  Object.entries(checkedState).forEach(([rowIndex, marks]) => {
+    const unit = rowUnits[Number(rowIndex)];
+    if (!unit) return;
+    const count = counts.get(unit.workcenter)!;
+    unions.forEach(union => {
+      if (!marks[union]) return;
+      count.candidatesByUnion[union]++;
+      if (unit.college) count.colleges[unit.college][union]++;
+    });
+  });
+
+  return workcenters.map(({ colleges, ...workcenter }) => {
+    const count = counts.get(workcenter.workcenter)!;
+    const result: WorkcenterSeats = { ...workcenter, candidatesByUnion: count.candidatesByUnion };
+    if (colleges) {
+      result.colleges = colleges.map(college => ({ ...college, candidatesByUnion: count.colleges[college.college] }));
+    }
+    return result;
+  });
+};
@@ -0,0 +1,216 @@
+import type { TableRow, ImportIssue } from '../types';
+
+// Filas de una hoja tal como vienen, celda a celda, antes de saber cuál es la cabecera.
+export type CellRows = unknown[][];
+
+// Qué parte de la hoja es el censo: la fila de cabecera y la última fila de datos (índices desde 0).
+export interface TableLayout {
+  headerRow: number;
+  lastDataRow: number;
+}
+
+// Filas que se revisan buscando la cabecera; los bloques de título nunca son más largos.
+const HEADER_SCAN_ROWS = 30;
+// Filas que se revisan desde el final buscando totales y pies de página.
+const FOOTER_SCAN_ROWS = 20;
+const FOOTER_PATTERN = /^(total|totales|suma|subtotal|n[ºo°.]?\s*(de\s*)?(registros|trabajador|emplead|personas)|p[aá]gina|generado|impreso|fecha de (emisi|impresi)|fin del)/i;
+
+const isBlankCell = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const countFilled = (row: unknown[] | undefined): number =>
+  (row ?? []).filter(value => !isBlankCell(value)).length;
+
+const isBlankRow = (row: unknown[] | undefined): boolean => countFilled(row) === 0;
+
+// Un rótulo de cabecera es texto que no parece un número, una fecha ni un importe.
+const isLabel = (value: unknown): boolean =>
+  typeof value === 'string' && value.trim() !== '' && !/^[\d\s.,:/%€-]+$/.test(value.trim());
+
+const lastFilledRow = (rows: CellRows): number => {
+  let last = rows.length - 1;
+  while (last >= 0 && isBlankRow(rows[last])) last--;
+  return last;
+};
+
+/**
+ * Busca la fila de cabecera real: la primera casi tan ancha como la tabla,
+ * con al menos dos celdas y en la que casi todo son rótulos distintos.
+ * Los logotipos, títulos y líneas en blanco de encima quedan fuera.
+ */
+const detectHeaderRow = (rows: CellRows): number => {
+  const sample = rows.slice(0, HEADER_SCAN_ROWS);
+  const widest = Math.max(0, ...sample.map(countFilled));
+
+  const index = sample.findIndex(row => {
+    const filled = row.filter(value => !isBlankCell(value));
+    if (filled.length < 2 || filled.length < widest * 0.6) return false;
+    const labels = filled.filter(isLabel).map(value => String(value).trim().toLowerCase());
+    return labels.length >= filled.length * 0.8 && new Set(labels).size === labels.length;
+  });
+  return Math.max(0, index);
+};
+
+// Filas de datos que se miran por encima de una fila final para saber qué suele haber en cada columna.
+const PROFILE_ROWS = 500;
+
+type CellType = 'number' | 'date' | 'text';
+
+const getCellType = (value: unknown): CellType => {
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'number') return 'number';
+  const text = String(value).trim();
+  if (/^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$|^\d{4}-\d{2}-\d{2}/.test(text)) return 'date';
+  if (/^-?[\d.,]+$/.test(text)) return 'number';
+  return 'text';
+};
+
+// Qué suele haber en cada columna: el tipo de sus valores si casi todos coinciden,
+// cuántas filas la rellenan y la longitud del valor más largo.
+interface ColumnProfile {
+  type: CellType | null;
+  filledShare: number;
+  maxLength: number;
+}
+
+const profileColumns = (rows: unknown[][]): ColumnProfile[] => {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return Array.from({ length: width }, (_, column) => {
+    const values = rows.map(row => row[column]).filter(value => !isBlankCell(value));
+    const counts = new Map<CellType, number>();
+    values.forEach(value => counts.set(getCellType(value), (counts.get(getCellType(value)) ?? 0) + 1));
+    const [dominant, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] ?? [null, 0];
+    return {
+      type: dominant && count >= values.length * 0.9 ? dominant : null,
+      filledShare: rows.length > 0 ? values.length / rows.length : 0,
+      maxLength: values.reduce<number>((max, value) => Math.max(max, String(value).trim().length), 0),
+    };
+  });
+};
+
+/**
+ * Indica si una fila final es un pie y no un trabajador con pocas columnas rellenas:
+ * un total o una nota reconocibles, un único texto que no encaja en su columna (una celda combinada)
+ * o valores que rompen el tipo de las columnas de números o fechas de los datos de encima.
+ */
+const isFooterRow = (row: unknown[], profile: ColumnProfile[]): boolean => {
+  if (isBlankRow(row)) return true;
+  const filled = row.flatMap((value, column) => isBlankCell(value) ? [] : [{ value, column }]);
+  if (FOOTER_PATTERN.test(String(filled[0].value).trim())) return true;
+
+  if (filled.length === 1) {
+    const { value, column } = filled[0];
+    const columnProfile = profile[column];
+    const type = getCellType(value);
+    if (!columnProfile || columnProfile.filledShare < 0.5) return true;
+    if (columnProfile.type && type !== columnProfile.type) return true;
+    if (type === 'text' && String(value).trim().length > columnProfile.maxLength) return true;
+  }
+
+  const typed = filled.filter(({ column }) => profile[column]?.type && profile[column].type !== 'text');
+  const broken = typed.filter(({ value, column }) => getCellType(value) !== profile[column].type);
+  return typed.length > 0 && broken.length >= typed.length / 2;
+};
+
+/**
+ * Busca la última fila de datos, dejando fuera por el final las líneas en blanco,
+ * los totales, los pies de página y las notas.
+ */
+const detectLastDataRow = (rows: CellRows, headerRow: number): number => {
+  const limit = Math.max(headerRow, rows.length - 1 - FOOTER_SCAN_ROWS);
+  let last = lastFilledRow(rows);
+
+  while (last > headerRow + 1 && last > limit) {
+    const above = rows.slice(Math.max(headerRow + 1, last - PROFILE_ROWS), last).filter(row => !isBlankRow(row));
+    if (!isFooterRow(rows[last], profileColumns(above))) break;
+    last--;
+  }
+  return Math.max(headerRow, last);
+};
+
+/**
+ * Detecta dónde empieza y dónde acaba el censo dentro de una hoja.
+ * @param rows Las filas de la hoja, celda a celda.
+ * @returns La fila de cabecera y la última fila de datos propuestas.
+ */
+export const detectTableLayout = (rows: CellRows): TableLayout => {
+  const headerRow = detectHeaderRow(rows);
+  return { headerRow, lastDataRow: detectLastDataRow(rows, headerRow) };
+};
+
+/**
+ * Indica si la disposición deja fuera algo más que líneas en blanco al final,
+ * es decir, si conviene que el usuario la revise antes de importar.
+ */
+export const layoutNeedsReview = (rows: CellRows, layout: TableLayout): boolean =>
+  layout.headerRow > 0 || layout.lastDataRow < lastFilledRow(rows);
+
+// Censo construido a partir de una hoja: `lines` es el número de fila en la hoja de cada fila de `data`.
+export interface BuiltTable {
+  headers: string[];
+  data: TableRow[];
+  lines: number[];
+  issues: ImportIssue[];
+}
+
+const describeRow = (row: unknown[]): string =>
+  row.filter(value => !isBlankCell(value)).map(String).join(' | ');
+
+/**
+ * Construye las filas del censo a partir de la disposición elegida.
+ * Las columnas sin rótulo reciben el nombre `Columna N` y se descartan si además están vacías;
+ * los rótulos repetidos se numeran para no pisarse.
+ * Las filas con contenido que quedan fuera (títulos, totales) y los rótulos cambiados se anotan como incidencias.
+ * @param rows Las filas de la hoja, celda a celda.
+ * @param layout La fila de cabecera y la última fila de datos.
+ * @returns Las cabeceras y las filas de datos, sin las filas en blanco.
+ */
+export const buildTable = (rows: CellRows, layout: TableLayout): BuiltTable => {
+  const headerCells = rows[layout.headerRow] ?? [];
+  const issues: ImportIssue[] = [];
+  const lines: number[] = [];
+  const dataRows: unknown[][] = [];
+  rows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+    if (index > layout.headerRow && index <= layout.lastDataRow) {
+      dataRows.push(row);
+      lines.push(index + 1);
+    } else if (index !== layout.headerRow) {
+      issues.push({
+        kind: 'skipped',
+        line: index + 1,
+        value: describeRow(row),
+        reason: index < layout.headerRow ? 'Encima de la fila de cabecera (título o encabezado)' : 'Después de la última fila de datos (totales o pie)',
+      });
+    }
+  });
+  const width = dataRows.reduce((max, row) => Math.max(max, row.length), headerCells.length);
+
+  const columns: { index: number; header: string }[] = [];
+  const used = new Map<string, number>();
+  for (let index = 0; index < width; index++) {
+    let header = String(headerCells[index] ?? '').trim();
+    if (!header) {
+      if (dataRows.every(row => isBlankCell(row[index]))) continue;
+      header = `Columna ${index + 1}`;
+      issues.push({ kind: 'coerced', line: layout.headerRow + 1, column: header, reason: 'Columna con datos pero sin rótulo en la cabecera' });
+    }
+    const count = (used.get(header) ?? 0) + 1;
+    used.set(header, count);
+    if (count > 1) {
+      issues.push({ kind: 'coerced', line: layout.headerRow + 1, column: header, newValue: `${header} (${count})`, reason: 'Rótulo de cabecera repetido' });
+    }
+    columns.push({ index, header: count > 1 ? `${header} (${count})` : header });
+  }
+
+  const data = dataRows.map(row => {
+    const tableRow: TableRow = {};
+    columns.forEach(({ index, header }) => {
+      if (!isBlankCell(row[index])) {
+        tableRow[header] = row[index];
+      }
+    });
+    return tableRow;
+  });
+  return { headers: columns.map(column => column.header), data, lines, issues };
+};
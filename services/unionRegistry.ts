@@ -0,0 +1,98 @@
+import type { UnionDefinition, ElectionResult } from '../types';
+
+type CheckedState = Record<number, Record<string, boolean>>;
+
+export const DEFAULT_UNION_REGISTRY: UnionDefinition[] = [
+  { acronym: 'CCOO', name: 'Comisiones Obreras', kind: 'sindicato', color: '#fca5a5' },
+  { acronym: 'UGT', name: 'Unión General de Trabajadores', kind: 'sindicato', color: '#93c5fd' },
+  { acronym: 'SB', name: 'SB', kind: 'sindicato', color: '#fdba74' },
+  { acronym: 'SITCA', name: 'SITCA', kind: 'sindicato', color: '#c4b5fd' },
+  { acronym: 'OTRO', name: 'Otros', kind: 'sindicato', color: '#fde047' },
+];
+
+export const UNION_KIND_LABELS: Record<UnionDefinition['kind'], string> = {
+  sindicato: 'Sindicato',
+  agrupacion: 'Agrupación de electores',
+};
+
+const FALLBACK_COLOR = '#d1d5db';
+export const MAX_LOGO_BYTES = 200 * 1024;
+
+// Partes del estado del proyecto que usan las siglas como clave.
+export interface UnionScopedState {
+  checkedState: CheckedState;
+  visibleUnions: string[];
+  results: Record<string, ElectionResult>;
+  candidateOrder: Record<string, number[]>;
+  substitutes: Record<string, number[]>;
+}
+
+/**
+ * Devuelve la definición de un sindicato. Las marcas de siglas que ya no están en el
+ * registro (por ejemplo, de un proyecto antiguo) se muestran con un color neutro.
+ */
+export const getUnionDefinition = (registry: UnionDefinition[], acronym: string): UnionDefinition =>
+  registry.find(union => union.acronym === acronym)
+  ?? { acronym, name: acronym, kind: 'sindicato', color: FALLBACK_COLOR };
+
+// "CCOO (Comisiones Obreras)", o solo las siglas si no hay nombre distinto.
+export const getUnionDisplayName = (union: UnionDefinition): string =>
+  union.name && union.name !== union.acronym ? `${union.acronym} (${union.name})` : union.acronym;
+
+/**
+ * Comprueba unas siglas nuevas y devuelve el motivo si no son válidas.
+ */
+export const validateUnionAcronym = (registry: UnionDefinition[], acronym: string, current?: string): string | null => {
+  const trimmed = acronym.trim();
+  if (!trimmed) {
+    return 'Las siglas no pueden estar vacías.';
+  }
+  if (registry.some(union => union.acronym.toLowerCase() === trimmed.toLowerCase() && union.acronym !== current)) {
+    return `Ya existe un sindicato con las siglas ${trimmed}.`;
+  }
+  return null;
+};
+
+export const countUnionMarks = (checkedState: CheckedState, acronym: string): number =>
+  Object.values(checkedState).filter(marks => marks[acronym]).length;
+
+const renameKey = <T>(record: Record<string, T>, from: string, to: string | null, merge: (a: T, b: T) => T): Record<string, T> => {
+  if (!(from in record)) return record;
+  const next = { ...record };
+  const value = next[from];
+  delete next[from];
+  if (to !== null) {
+    next[to] = to in next ? merge(next[to], value) : value;
+  }
+  return next;
+};
+
+const mergeRowLists = (into: number[], from: number[]) => [...into, ...from.filter(row => !into.includes(row))];
+
+/**
+ * Traslada todo lo que cuelga de unas siglas a otras: renombrar si las nuevas no existen,
+ * fusionar si ya existen (se suman las marcas, los votos y las listas) o borrar si `to` es `null`.
+ */
+export const remapUnion = (state: UnionScopedState, from: string, to: string | null): UnionScopedState => {
+  const checkedState: CheckedState = {};
+  Object.entries(state.checkedState).forEach(([rowIndex, marks]) => {
+    checkedState[Number(rowIndex)] = renameKey(marks, from, to, (a, b) => a || b);
+  });
+
+  const results: Record<string, ElectionResult> = {};
+  Object.entries(state.results).forEach(([key, result]) => {
+    results[key] = { ...result, votesByUnion: renameKey(result.votesByUnion, from, to, (a, b) => a + b) };
+  });
+
+  const visibleUnions = state.visibleUnions.includes(from)
+    ? Array.from(new Set(state.visibleUnions.flatMap(union => union === from ? (to === null ? [] : [to]) : [union])))
+    : state.visibleUnions;
+
+  return {
+    checkedState,
+    visibleUnions,
+    results,
+    candidateOrder: renameKey(state.candidateOrder, from, to, mergeRowLists),
+    substitutes: renameKey(state.substitutes, from, to, mergeRowLists),
+  };
+};
@@ -8,9 +8,131 @@ export type SubgroupedDuplicates = Record<string, Record<string, {
     row: TableRow;
 }[]>>;
 
-// FIX: Add MappingSuggestion type to fix import error in MappingModal.tsx.
 // Represents a single suggestion for mapping an original column header to an ideal one.
+// `suggested` equal to `original` keeps the column as it is; 'ignorar' drops it.
 export type MappingSuggestion = {
   original: string;
   suggested: string;
+  // How sure the heuristic is, from 0 to 1. Missing for mappings chosen by hand or taken from a profile.
+  confidence?: number;
+};
+
+// A confirmed column mapping saved under a name, applied again to files with the same headers.
+export type MappingProfile = {
+  id: string;
+  name: string;
+  headers: string[];
+  mappings: MappingSuggestion[];
+  createdAt: string;
+};
+
+// How two census rows are recognised as the same person when looking for duplicates.
+// 'dni' falls back to the full name for rows without an identifier.
+export type IdentityRule = {
+  mode: 'dni' | 'name' | 'columns';
+  columns: string[];
+  // When enabled, similar (not identical) names are also listed as possible duplicates.
+  fuzzy?: boolean;
+  fuzzyThreshold?: number;
+};
+
+// The user's verdict on a possible duplicate pair, keyed by the pair key.
+export type PairDecision = 'confirmed' | 'dismissed';
+
+// Two different people in the census whose names are similar enough to be the same person.
+export type PossibleDuplicate = {
+  pairKey: string;
+  score: number;
+  first: { identifier: string; unions: string[] };
+  second: { identifier: string; unions: string[] };
+  decision?: PairDecision;
+};
+
+// A candidate marked in several unions, as listed in the duplicates modal and the report.
+export type CandidateDuplicate = {
+  identifier: string;
+  otherUnions: string[];
+  row: TableRow;
+  invalidIdMessage?: string;
+};
+
+// Legal thresholds checked against the voting date. Candidates must meet the stricter ones.
+export type EligibilityRules = {
+  candidateMinAge: number;
+  candidateMinSeniorityMonths: number;
+  electorMinAge: number;
+  electorMinSeniorityMonths: number;
+};
+
+// The two electoral colleges used in workcenters that elect a works committee.
+export type ElectoralCollege = 'tecnicos' | 'especialistas';
+
+// Maps each value of a category / professional group column to its electoral college.
+export type CollegeMapping = {
+  column: string;
+  assignments: Record<string, ElectoralCollege>;
+};
+
+// Votes counted in one electoral unit: a workcenter, or one of its electoral colleges.
+export type ElectionResult = {
+  validVotes: number;
+  blankVotes: number;
+  votesByUnion: Record<string, number>;
+};
+
+// Sort applied to the census table, by a data column or by the marks of a union.
+export type TableSort = {
+  key: string;
+  direction: 'asc' | 'desc';
+  byUnion?: boolean;
+};
+
+// How the census table is displayed: column order, hidden columns, custom widths and sort.
+export type ColumnLayout = {
+  order: string[];
+  hidden: string[];
+  widths: Record<string, number>;
+  sort: TableSort | null;
+};
+
+// A census cell fixed by hand in the table, kept apart from the imported value so it can be reverted.
+export type CellCorrection = {
+  value: string;
+  original: string;
+  timestamp: string;
+  user: string;
+};
+
+// Corrections by row index and then by column header.
+export type Corrections = Record<number, Record<string, CellCorrection>>;
+
+// A union or an independent group of workers (agrupación de electores) that can present candidates.
+// The acronym is the key used by the marks, lists and results.
+export type UnionDefinition = {
+  acronym: string;
+  name: string;
+  kind: 'sindicato' | 'agrupacion';
+  color: string;
+  logo?: string;
+};
+
+// A problem found while importing a census: a row left out, a row that could not be read properly,
+// or a cell whose value was converted. `line` is the row number in the file or sheet.
+export type ImportIssue = {
+  kind: 'skipped' | 'malformed' | 'coerced';
+  source?: string;
+  line?: number;
+  column?: string;
+  value?: string;
+  newValue?: string;
+  reason: string;
+};
+
+// What happened during an import, kept with the project so it can be reviewed again later.
+export type ImportReport = {
+  fileName: string;
+  importedAt: string;
+  rowCount: number;
+  notes: string[];
+  issues: ImportIssue[];
 };